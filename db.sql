@@ -62,7 +62,8 @@ create table clinic (
     phone int unsigned not null check (phone >= 100000000 and phone <= 999999999),
     address varchar(128) not null check (address != ""),
     opening_time time not null,
-    closing_time time not null
+    closing_time time not null,
+    updated_at datetime(6) not null default current_timestamp(6) on update current_timestamp(6) invisible
 );
 
 create table blood_type (
@@ -82,6 +83,7 @@ create table patient (
     first_last_name varchar(32) not null check (first_last_name != ""),
     second_last_name varchar(32) check (second_last_name is null or second_last_name != ""),
     email varchar(64) unique not null check (email regexp "^(([^<>()\\[\\]\\\\.,;:\\s@\"]+(\\.[^<>()\\[\\]\\\\.,;:\\s@\"]+)*)|(\".+\"))@((\\[[0-9]{1,3}\\.[0-9]{1,3}\\.[0-9]{1,3}\\.[0-9]{1,3}])|(([a-zA-Z\\-0-9]+\\.)+[a-zA-Z]{2,}))$"),
+    email_verified boolean not null default false,
     phone int unsigned unique not null check (phone >= 100000000 and phone <= 999999999),
     birth_date date not null,
     gender varchar(12) not null,
@@ -94,9 +96,9 @@ create table patient (
     morbidity_history varchar(1000) default null,
     surgical_history varchar(1000) default null,
     medications varchar(1000) default null,
-    password char(86) not null check (password != ""),
-    salt char(43) not null check (salt != ""),
-    session_token char(86) unique check (session_token is null or session_token != ""),
+    password varchar(256) not null check (password != ""),
+    salt char(43) check (salt is null or salt != ""),
+    updated_at datetime(6) not null default current_timestamp(6) on update current_timestamp(6) invisible,
     foreign key (blood_type_id) references blood_type(id),
     foreign key (insurance_type_id) references insurance_type(id)
 );
@@ -125,9 +127,9 @@ create table employee (
     phone int unsigned unique not null check (phone >= 100000000 and phone <= 999999999),
     birth_date date not null,
     gender varchar(12) not null,
-    password char(86) not null check (password != ""),
-    salt char(43) not null check (salt != ""),
-    session_token char(86) unique check (session_token is null or session_token != "")
+    password varchar(256) not null check (password != ""),
+    salt char(43) check (salt is null or salt != ""),
+    updated_at datetime(6) not null default current_timestamp(6) on update current_timestamp(6) invisible
 );
 
 delimiter $$
@@ -143,6 +145,162 @@ begin
 end; $$
 delimiter ;
 
+create table employee_totp (
+    rut varchar(11) primary key,
+    secret char(32) default null,
+    enabled boolean not null default false,
+    required boolean not null default false,
+    last_used_step bigint unsigned default null,
+    foreign key (rut) references employee(rut)
+);
+
+create table totp_recovery_code (
+    id bigint unsigned primary key auto_increment,
+    rut varchar(11) not null,
+    code_hash char(43) not null,
+    used boolean not null default false,
+    foreign key (rut) references employee(rut)
+);
+
+create table impersonation (
+    id bigint unsigned primary key auto_increment,
+    admin_rut varchar(11) not null,
+    rut varchar(11) not null,
+    type enum("patient", "medic") not null,
+    started_at datetime not null default current_timestamp,
+    ended_at datetime default null,
+    foreign key (admin_rut) references employee(rut),
+    index (rut, type)
+);
+
+create table impersonation_action (
+    id bigint unsigned primary key auto_increment,
+    impersonation_id bigint unsigned not null,
+    method varchar(7) not null,
+    path varchar(256) not null,
+    status smallint unsigned not null,
+    completed boolean not null,
+    created_at datetime not null default current_timestamp,
+    foreign key (impersonation_id) references impersonation(id)
+);
+
+create table session (
+    id bigint unsigned primary key auto_increment,
+    token char(86) unique not null check (token != ""),
+    rut varchar(11) not null,
+    type enum("patient", "medic", "admin") not null,
+    created_at datetime not null default current_timestamp,
+    last_used_at datetime not null default current_timestamp,
+    user_agent varchar(256) default null,
+    ip varchar(45) default null,
+    impersonation_id bigint unsigned default null,
+    foreign key (impersonation_id) references impersonation(id),
+    index (rut, type)
+);
+
+create table session_revocation (
+    version bigint unsigned primary key auto_increment,
+    session_id bigint unsigned not null,
+    created_at datetime not null default current_timestamp
+);
+
+create table login_throttle (
+    rut varchar(11) not null,
+    type enum("patient", "medic", "admin") not null,
+    failed_attempts int unsigned not null default 0,
+    last_failed_at datetime default null,
+    locked_until datetime default null,
+    primary key (rut, type)
+);
+
+create table login_history (
+    id bigint unsigned primary key auto_increment,
+    rut varchar(11) not null,
+    type enum("patient", "medic", "admin") not null,
+    success boolean not null,
+    failure_reason enum("invalid_credentials", "invalid_challenge", "invalid_two_factor_code", "locked", "throttled")
+        default null,
+    user_agent varchar(256) default null,
+    ip varchar(45) default null,
+    created_at datetime not null default current_timestamp,
+    index (rut, type, created_at),
+    index (created_at)
+);
+
+create table login_challenge (
+    id bigint unsigned primary key auto_increment,
+    token char(43) unique not null,
+    rut varchar(11) not null,
+    type enum("medic", "admin") not null,
+    expires_at datetime not null,
+    attempts tinyint unsigned not null default 0
+);
+
+create table password_reset (
+    id bigint unsigned primary key auto_increment,
+    rut varchar(11) not null,
+    type enum("patient", "medic", "admin") not null,
+    code_hash char(43) not null,
+    created_at datetime not null default current_timestamp,
+    expires_at datetime not null,
+    attempts tinyint unsigned not null default 0,
+    used boolean not null default false,
+    index (rut, type)
+);
+
+create table idempotency_key (
+    id bigint unsigned primary key auto_increment,
+    client varchar(64) not null,
+    idempotency_key varchar(255) not null,
+    fingerprint char(43) not null,
+    response_status smallint unsigned,
+    response_body mediumtext,
+    created_at datetime not null default current_timestamp,
+    expires_at datetime not null,
+    unique (client, idempotency_key),
+    index (expires_at)
+);
+
+create table role (
+    id int unsigned primary key auto_increment,
+    name varchar(32) unique not null check (name != ""),
+    account_type enum("patient", "medic", "admin") default null
+);
+
+create table role_permission (
+    role_id int unsigned not null,
+    permission varchar(64) not null check (permission != ""),
+    primary key (role_id, permission),
+    foreign key (role_id) references role(id)
+);
+
+create table account_role (
+    rut varchar(11) not null,
+    type enum("patient", "medic", "admin") not null,
+    role_id int unsigned not null,
+    primary key (rut, type, role_id),
+    foreign key (role_id) references role(id)
+);
+
+create table api_key (
+    id bigint unsigned primary key auto_increment,
+    name varchar(64) not null check (name != ""),
+    key_hash char(43) unique not null,
+    created_by varchar(11) not null,
+    created_at datetime not null default current_timestamp,
+    expires_at datetime default null,
+    last_used_at datetime default null,
+    revoked_at datetime default null,
+    foreign key (created_by) references employee(rut)
+);
+
+create table api_key_permission (
+    api_key_id bigint unsigned not null,
+    permission varchar(64) not null,
+    primary key (api_key_id, permission),
+    foreign key (api_key_id) references api_key(id)
+);
+
 create table specialty (
     id int unsigned primary key auto_increment,
     name varchar(64) not null check (name != "")
@@ -196,6 +354,7 @@ create table medic (
     rut varchar(11) primary key,
     specialty_id int unsigned not null,
     schedule_id int unsigned not null,
+    updated_at datetime(6) not null default current_timestamp(6) on update current_timestamp(6) invisible,
     foreign key (rut) references employee(rut),
     foreign key (specialty_id) references specialty(id),
     foreign key (schedule_id) references schedule(id)
@@ -224,6 +383,7 @@ create table appointment (
     patient_rut varchar(11) not null,
     description varchar(1000) not null check (description != ""),
     confirmed boolean not null default false,
+    updated_at datetime(6) not null default current_timestamp(6) on update current_timestamp(6) invisible,
     primary key (time_slot_id, date),
     foreign key (patient_rut) references patient(rut),
     foreign key (time_slot_id) references time_slot(id)
@@ -362,6 +522,56 @@ insert into insurance_type (name) values
     ("Fonasa"),
     ("Isapre");
 
+insert into role (name, account_type) values
+    ("patient", "patient"),
+    ("medic", "medic"),
+    ("admin", "admin");
+
+insert into role_permission values
+    (1, "login-history:read:own"),
+    (1, "passwords:write:own"),
+    (1, "patients:read:own"),
+    (1, "patients:write:own"),
+    (1, "sessions:read:own"),
+    (1, "sessions:write:own"),
+    (2, "admins:read:any"),
+    (2, "appointments:read:own"),
+    (2, "appointments:write:own"),
+    (2, "login-history:read:own"),
+    (2, "medics:write:own"),
+    (2, "passwords:write:own"),
+    (2, "patients:read:any"),
+    (2, "patients:write:any"),
+    (2, "schedules:read:own"),
+    (2, "schedules:write:own"),
+    (2, "sessions:read:own"),
+    (2, "sessions:write:own"),
+    (2, "two-factor:read:own"),
+    (2, "two-factor:write:own"),
+    (3, "admins:read:any"),
+    (3, "admins:write:own"),
+    (3, "api-keys:read:any"),
+    (3, "api-keys:write:any"),
+    (3, "appointments:read:any"),
+    (3, "appointments:write:any"),
+    (3, "clinic:write:any"),
+    (3, "impersonations:write:own"),
+    (3, "lockouts:write:any"),
+    (3, "login-history:read:own"),
+    (3, "login-history:read:any"),
+    (3, "medics:write:any"),
+    (3, "passwords:write:own"),
+    (3, "patients:read:any"),
+    (3, "patients:write:any"),
+    (3, "schedules:read:any"),
+    (3, "schedules:write:any"),
+    (3, "sessions:read:own"),
+    (3, "sessions:write:own"),
+    (3, "two-factor:read:any"),
+    (3, "two-factor:write:own"),
+    (3, "two-factor:write:any"),
+    (3, "two-factor:enforce:any");
+
 insert into specialty (name) values
     ("Allergy and Immunology"),
     ("Dermatology"),
@@ -382,9 +592,9 @@ insert into specialty (name) values
 
 insert into patient values
     -- password: 1234567890
-    ("1000000-9", "Name 1", "Name 2", "Surname 1", "Surname 2", "my@email.com", 923456789, "2000-01-01", "Male", 70, 180, "+", 1, 1, null, null, null, null, "EIlbPX94ABnBGXRX2pFGfbdGr_iGT6xKHa_kFmfY9T4XZpbtd441ita68T8-eTdQaFhzdGPkoSPTk-lAJ0ODaA", "AIoVry0_yskEUbR_B4QnWLBmd5pzn_f2rs-SEm9yAQs", null),
+    ("1000000-9", "Name 1", "Name 2", "Surname 1", "Surname 2", "my@email.com", true, 923456789, "2000-01-01", "Male", 70, 180, "+", 1, 1, null, null, null, null, "EIlbPX94ABnBGXRX2pFGfbdGr_iGT6xKHa_kFmfY9T4XZpbtd441ita68T8-eTdQaFhzdGPkoSPTk-lAJ0ODaA", "AIoVry0_yskEUbR_B4QnWLBmd5pzn_f2rs-SEm9yAQs"),
     -- password: qwertyuiop
-    ("2000000-7", "Name 3", "Name 4", "Surname 3", "Surname 4", "an@email.com", 987654321, "2002-02-20", "Female", 60, 175, "-", 2, 2, null, null, null, null, "UvnSFma7X242DgRC45-qo-8_ZMR-wJxWlceflmpXa2vFxHwywMpIMSE6H7AYJw7RWJieFo5en1MDeAI6G2wMSA", "s7ujjgSgJItN6HP6wohuaPCwxyuIKRZpCfxwx5-lL2Q", null);
+    ("2000000-7", "Name 3", "Name 4", "Surname 3", "Surname 4", "an@email.com", true, 987654321, "2002-02-20", "Female", 60, 175, "-", 2, 2, null, null, null, null, "UvnSFma7X242DgRC45-qo-8_ZMR-wJxWlceflmpXa2vFxHwywMpIMSE6H7AYJw7RWJieFo5en1MDeAI6G2wMSA", "s7ujjgSgJItN6HP6wohuaPCwxyuIKRZpCfxwx5-lL2Q");
 
 insert into schedule values
     (null),
@@ -423,11 +633,11 @@ insert into time_slot (schedule_id, day, start, end) values
 
 insert into employee values
     -- password: asdfghjkl
-    ("3000000-5", "medic", "Name 5", "Name 6", "Surname 5", "Surname 6", "a@clinic.cl", 934567890, "1990-12-30", "Male", "QZru3w43-AvfIa58FnuA36YS6PMhNv4d9hywyHVtBQZxmRk3R1bwX2JtWfNyTXqCpynFzqFOTY1DpIrLn2us7A", "P5p7WmOSjzA3UeYwRu9Vq52lm4dnRWpqIC5MhaMFkdk", null),
+    ("3000000-5", "medic", "Name 5", "Name 6", "Surname 5", "Surname 6", "a@clinic.cl", 934567890, "1990-12-30", "Male", "QZru3w43-AvfIa58FnuA36YS6PMhNv4d9hywyHVtBQZxmRk3R1bwX2JtWfNyTXqCpynFzqFOTY1DpIrLn2us7A", "P5p7WmOSjzA3UeYwRu9Vq52lm4dnRWpqIC5MhaMFkdk"),
     -- password: zxcvbnm
-    ("4000000-3", "medic", "Name 7", null, "Surname 7", null, "b@clinic.cl", 976543210, "1980-02-14", "Female", "RTmAdfHX30a3sm0n_uUgPCj35ODQ1FoTrMYF9S4Jou3enmVWhe74ALm2Xy4Krd8mVNH1sQijvadWIx1oTR6-cg", "ZTV5cu6TWP3hgHo8vO_KktKpVxs_Mxw3e1I4TzJaGfo", null),
+    ("4000000-3", "medic", "Name 7", null, "Surname 7", null, "b@clinic.cl", 976543210, "1980-02-14", "Female", "RTmAdfHX30a3sm0n_uUgPCj35ODQ1FoTrMYF9S4Jou3enmVWhe74ALm2Xy4Krd8mVNH1sQijvadWIx1oTR6-cg", "ZTV5cu6TWP3hgHo8vO_KktKpVxs_Mxw3e1I4TzJaGfo"),
     -- password: 1qaz2wsx3edc
-    ("5000000-1", "admin_staff", "Name 8", null, "Surname 8", null, "c@clinic.cl", 948267513, "2004-04-04", "Male", "UpB4cBLgCjXgocQ-aJbQzuFctGkDTtwE9sctsuOyWBwHRRzPrtPftvDfcxzEqXc8DMOkAu3sJbWo4isyhNwzUQ", "2qr_MEQhXa_hPVq-YgGSMTqgopdCj96mVuhFv7o2qX4", null);
+    ("5000000-1", "admin_staff", "Name 8", null, "Surname 8", null, "c@clinic.cl", 948267513, "2004-04-04", "Male", "UpB4cBLgCjXgocQ-aJbQzuFctGkDTtwE9sctsuOyWBwHRRzPrtPftvDfcxzEqXc8DMOkAu3sJbWo4isyhNwzUQ", "2qr_MEQhXa_hPVq-YgGSMTqgopdCj96mVuhFv7o2qX4");
 
 insert into medic values
     ("3000000-5", 1, 1),
@@ -0,0 +1,319 @@
+import { createHash, randomBytes } from "crypto";
+import { sql } from "kysely";
+import { BigIntString, db } from "./db";
+import logger from "./logger";
+import type { Permission } from "./permissions";
+import { Token, TokenType } from "./tokens";
+
+/**
+ * Minimum amount of milliseconds between two writes of `api_key.last_used_at` for the same key.
+ */
+const lastUsedWriteInterval = 60_000;
+/**
+ * Maximum amount of milliseconds a key is kept in memory before being loaded from the database again. Also bounds how
+ * long a revocation missed by the polling could go unnoticed.
+ */
+const cachedApiKeyTtl = 60_000;
+/**
+ * Amount of milliseconds between each check for keys revoked by other instances.
+ */
+const revocationPollInterval = 5_000;
+const keyPrefix = "ck_";
+
+/**
+ * Keys used through this instance, by their hash. Unknown and revoked keys are never cached.
+ */
+const apiKeys = new Map<string, CachedApiKey>();
+
+/**
+ * Starts keeping track of keys revoked by other instances. Keys themselves are loaded on demand.
+ */
+export function initApiKeys(): void {
+    setInterval(pollRevocations, revocationPollInterval).unref();
+}
+
+/**
+ * Creates a new key granting only the given permissions, which should all be `any` scoped since keys don't own any
+ * resources.
+ *
+ * @param expiresAt In milliseconds since epoch.
+ * @returns The key, which can't be retrieved again.
+ */
+export async function createApiKey(
+    name: string,
+    permissions: Permission[],
+    createdBy: string,
+    expiresAt: number | null = null
+): Promise<NewApiKeyInfo> {
+    const key = keyPrefix + randomBytes(32).toString("base64url");
+    const keyHash = hashApiKey(key);
+
+    const id = await db.transaction().execute(async (tsx) => {
+        const { insertId } = await tsx
+            .insertInto("api_key")
+            .values({
+                name,
+                key_hash: keyHash,
+                created_by: createdBy,
+                expires_at: expiresAt ? sql<string>`from_unixtime(${Math.floor(expiresAt / 1000)})` : null,
+            })
+            .executeTakeFirstOrThrow();
+
+        const id = `${insertId}` as BigIntString;
+
+        if (permissions.length > 0) {
+            await tsx
+                .insertInto("api_key_permission")
+                .values(permissions.map(permission => ({
+                    api_key_id: id,
+                    permission,
+                })))
+                .execute();
+        }
+
+        return id;
+    });
+
+    apiKeys.set(keyHash, {
+        id,
+        createdBy,
+        permissions: new Set(permissions),
+        expiresAt,
+        lastUsedWrittenAt: 0,
+        cachedAt: Date.now(),
+    });
+
+    return {
+        id,
+        key,
+    };
+}
+
+export async function getApiKeys(): Promise<ApiKeyInfo[]> {
+    const keys = await db
+        .selectFrom("api_key as k")
+        .leftJoin("api_key_permission as p", "p.api_key_id", "k.id")
+        .select([
+            "k.id",
+            "k.name",
+            "k.created_by as createdBy",
+            "k.created_at as createdAt",
+            "k.expires_at as expiresAt",
+            "k.last_used_at as lastUsedAt",
+            "k.revoked_at as revokedAt",
+            "p.permission",
+        ])
+        .orderBy("k.id")
+        .execute();
+
+    const keysById = new Map<BigIntString, ApiKeyInfo>();
+
+    for (const { id, name, createdBy, createdAt, expiresAt, lastUsedAt, revokedAt, permission } of keys) {
+        let apiKey = keysById.get(id);
+
+        if (!apiKey) {
+            apiKey = {
+                id,
+                name,
+                permissions: [],
+                createdBy,
+                createdAt,
+                ...expiresAt && { expiresAt },
+                ...lastUsedAt && { lastUsedAt },
+                ...revokedAt && { revokedAt },
+            };
+
+            keysById.set(id, apiKey);
+        }
+
+        if (permission) {
+            apiKey.permissions.push(permission);
+        }
+    }
+
+    return [...keysById.values()];
+}
+
+/**
+ * Other instances stop accepting the key once they poll for revocations.
+ *
+ * @returns Whether the key existed and hadn't been revoked yet.
+ */
+export async function revokeApiKey(id: BigIntString): Promise<boolean> {
+    const result = await db
+        .updateTable("api_key")
+        .set("revoked_at", sql<string>`current_timestamp()`)
+        .where("id", "=", id)
+        .where("revoked_at", "is", null)
+        .executeTakeFirst();
+
+    evictApiKeys([id]);
+
+    return result.numUpdatedRows > 0n;
+}
+
+/**
+ * Returns a token representing the key, or `undefined` if it does not exist, has been revoked or has expired. The
+ * token is attributed to the admin who created the key. Keys not cached by this instance are loaded from the database.
+ */
+export async function getApiKeyData(key: string): Promise<Token | undefined> {
+    if (!key.startsWith(keyPrefix)) {
+        return undefined;
+    }
+
+    const keyHash = hashApiKey(key);
+    const cachedApiKey = apiKeys.get(keyHash);
+    const apiKey = cachedApiKey && Date.now() - cachedApiKey.cachedAt < cachedApiKeyTtl
+        ? cachedApiKey
+        : await loadApiKey(keyHash);
+    const now = Date.now();
+
+    if (!apiKey || (apiKey.expiresAt !== null && apiKey.expiresAt <= now)) {
+        return undefined;
+    }
+
+    if (now - apiKey.lastUsedWrittenAt >= lastUsedWriteInterval) {
+        apiKey.lastUsedWrittenAt = now;
+
+        void db
+            .updateTable("api_key")
+            .where("id", "=", apiKey.id)
+            .set("last_used_at", sql<string>`current_timestamp()`)
+            .execute()
+            .catch(error => logger.error("Failed to update API key last use:", error));
+    }
+
+    return {
+        id: apiKey.id,
+        token: "",
+        rut: apiKey.createdBy,
+        type: TokenType.ADMIN,
+        apiKeyId: apiKey.id,
+    };
+}
+
+/**
+ * Returns the permissions granted to the key with the given id, or an empty set if it's not active. Must be called
+ * after resolving the key through {@link getApiKeyData}, which caches it.
+ */
+export function getApiKeyPermissions(id: BigIntString): Set<Permission> {
+    for (const apiKey of apiKeys.values()) {
+        if (apiKey.id === id) {
+            return new Set(apiKey.permissions);
+        }
+    }
+
+    return new Set();
+}
+
+/**
+ * Keys don't own any resources, so only `any` scoped permissions can be granted to them, and they must not be able to
+ * manage other keys.
+ */
+export function isApiKeyPermission(permission: Permission): boolean {
+    return permission.endsWith(":any") && !permission.startsWith("api-keys:");
+}
+
+export type NewApiKeyInfo = {
+    id: BigIntString;
+    key: string;
+};
+
+export type ApiKeyInfo = {
+    id: BigIntString;
+    name: string;
+    permissions: string[];
+    createdBy: string;
+    createdAt: string;
+    expiresAt?: string;
+    lastUsedAt?: string;
+    revokedAt?: string;
+};
+
+type CachedApiKey = {
+    id: BigIntString;
+    createdBy: string;
+    permissions: Set<Permission>;
+    /**
+     * In milliseconds since epoch.
+     */
+    expiresAt: number | null;
+    lastUsedWrittenAt: number;
+    /**
+     * When the entry was loaded from the database, in milliseconds since epoch.
+     */
+    cachedAt: number;
+};
+
+async function loadApiKey(keyHash: string): Promise<CachedApiKey | undefined> {
+    const rows = await db
+        .selectFrom("api_key as k")
+        .leftJoin("api_key_permission as p", "p.api_key_id", "k.id")
+        .select([
+            "k.id",
+            "k.created_by as createdBy",
+            sql<string | null>`unix_timestamp(k.expires_at)`.as("expiresAt"),
+            "p.permission",
+        ])
+        .where("k.key_hash", "=", keyHash)
+        .where("k.revoked_at", "is", null)
+        .execute();
+
+    if (rows.length === 0) {
+        apiKeys.delete(keyHash);
+        return undefined;
+    }
+
+    const { id, createdBy, expiresAt } = rows[0];
+
+    const apiKey: CachedApiKey = {
+        id,
+        createdBy,
+        permissions: new Set(rows.flatMap(row => row.permission ? [row.permission as Permission] : [])),
+        expiresAt: expiresAt ? +expiresAt * 1000 : null,
+        // keeps the throttling of last use writes across reloads
+        lastUsedWrittenAt: apiKeys.get(keyHash)?.lastUsedWrittenAt ?? 0,
+        cachedAt: Date.now(),
+    };
+
+    apiKeys.set(keyHash, apiKey);
+
+    return apiKey;
+}
+
+function evictApiKeys(ids: BigIntString[]): void {
+    const idSet = new Set(ids);
+
+    for (const [keyHash, apiKey] of apiKeys) {
+        if (idSet.has(apiKey.id)) {
+            apiKeys.delete(keyHash);
+        }
+    }
+}
+
+/**
+ * Revoked keys are kept in the database, so the cached ones are checked directly instead of through a log of
+ * revocations.
+ */
+async function pollRevocations(): Promise<void> {
+    if (apiKeys.size === 0) {
+        return;
+    }
+
+    try {
+        const revokedKeys = await db
+            .selectFrom("api_key")
+            .select("id")
+            .where("id", "in", [...apiKeys.values()].map(apiKey => apiKey.id))
+            .where("revoked_at", "is not", null)
+            .execute();
+
+        evictApiKeys(revokedKeys.map(apiKey => apiKey.id));
+    } catch (error) {
+        logger.error("Failed to poll API key revocations:", error);
+    }
+}
+
+function hashApiKey(key: string): string {
+    return createHash("sha256").update(key).digest("base64url");
+}
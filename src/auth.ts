@@ -0,0 +1,633 @@
+import { randomBytes } from "crypto";
+import { sql } from "kysely";
+import { db, hashPassword, HashedPassword, verifyPassword } from "./db";
+import { sendEmail } from "./email/sender";
+import { HTTPStatus } from "./endpoints/base";
+import logger from "./logger";
+import { LoginFailureReason, recordLoginAttempt } from "./loginHistory";
+import { generateToken, SessionMetadata, TokenType, tokenTypeNames } from "./tokens";
+import { confirmTotpEnrollment, getTotpStatus, startTotpEnrollment, TotpEnrollment, verifySecondFactor } from "./totp";
+
+/**
+ * Amount of consecutive failed attempts before the account gets temporarily locked.
+ */
+const maxFailedAttempts = 10;
+/**
+ * Amount of consecutive failed attempts after which each new attempt must wait a progressively longer delay.
+ */
+const failedAttemptsBeforeDelay = 3;
+/**
+ * In seconds.
+ */
+const maxAttemptDelay = 30;
+/**
+ * In minutes.
+ */
+const lockoutDuration = 15;
+/**
+ * Maximum amount of failed attempts coming from the same IP address, for any account, within {@link ipWindow}.
+ */
+const maxFailedAttemptsPerIp = 50;
+/**
+ * In milliseconds.
+ */
+const ipWindow = 15 * 60_000;
+/**
+ * Amount of tracked IP addresses after which expired entries start getting cleaned up.
+ */
+const maxTrackedIps = 10_000;
+/**
+ * In minutes.
+ */
+const challengeLifetime = 5;
+/**
+ * Maximum amount of wrong two-factor codes allowed for a single challenge.
+ */
+const maxChallengeAttempts = 5;
+
+const ipFailedAttempts = new Map<string, IpFailedAttempts>();
+let dummyPassword: HashedPassword | undefined;
+
+const invalidCredentialsResult = {
+    ok: false,
+    status: HTTPStatus.UNAUTHORIZED,
+    message: "Invalid credentials.",
+} as const satisfies AuthenticationResult;
+
+/**
+ * Checks the user's credentials and creates a new session for them.
+ *
+ * Non-existent accounts and incorrect passwords produce the exact same result, and both count towards the
+ * failed attempts of that rut.
+ *
+ * Employees with two-factor authentication enabled or required get a challenge instead, which must be completed
+ * through {@link completeChallenge}. If they haven't enrolled yet, the challenge also includes a new secret to enroll
+ * with.
+ */
+export async function authenticate(
+    rut: string,
+    type: TokenType.PATIENT,
+    password: string,
+    metadata?: SessionMetadata
+): Promise<Exclude<AuthenticationResult, { challenge: string }>>;
+export async function authenticate(
+    rut: string,
+    type: TokenType,
+    password: string,
+    metadata?: SessionMetadata
+): Promise<AuthenticationResult>;
+export async function authenticate(
+    rut: string,
+    type: TokenType,
+    password: string,
+    metadata: SessionMetadata = {}
+): Promise<AuthenticationResult> {
+    const throttleError = await checkThrottle(rut, type, metadata.ip);
+
+    if (throttleError) {
+        await recordLoginAttempt(rut, type, metadata, getThrottleFailureReason(throttleError));
+        return throttleError;
+    }
+
+    const account = await getAccount(rut, type);
+    // always verify against some hash, so response times don't reveal whether the account exists
+    const { valid, needsRehash } = await verifyPassword(password, account ?? await getDummyPassword());
+
+    if (!account || !valid) {
+        registerIpFailedAttempt(metadata.ip);
+        await registerFailedAttempt(rut, type, account?.email);
+        await recordLoginAttempt(rut, type, metadata, "invalid_credentials");
+
+        return invalidCredentialsResult;
+    }
+
+    return await startSession(rut, type, password, needsRehash, metadata);
+}
+
+/**
+ * Same as {@link authenticate}, but the account is looked up by rut or email instead, which also resolves its type.
+ *
+ * The same person may hold several accounts under one rut or email, e.g. a medic who's also a patient, in which case
+ * the session is created for the one whose password matches, and failed attempts count towards all of them.
+ * Non-existent emails only count towards the failed attempts of the IP address.
+ */
+export async function authenticateByIdentifier(
+    identifier: AccountIdentifier,
+    password: string,
+    metadata: SessionMetadata = {}
+): Promise<IdentifiedAuthenticationResult> {
+    const candidates = await findAccounts(identifier);
+
+    // unknown ruts are handled the same way as when logging in as a patient
+    if (candidates.length === 0 && "rut" in identifier) {
+        candidates.push({
+            rut: identifier.rut,
+            type: TokenType.PATIENT,
+        });
+    }
+
+    if (candidates.length === 0) {
+        const ipRetryAfter = getIpRetryAfter(metadata.ip);
+
+        if (ipRetryAfter > 0) {
+            return {
+                ok: false,
+                status: HTTPStatus.TOO_MANY_REQUESTS,
+                message: "Too many failed login attempts, try again later.",
+                retryAfter: ipRetryAfter,
+            };
+        }
+
+        await verifyPassword(password, await getDummyPassword());
+        registerIpFailedAttempt(metadata.ip);
+
+        return invalidCredentialsResult;
+    }
+
+    const throttleErrors = await Promise.all(candidates.map(({ rut, type }) => checkThrottle(rut, type, metadata.ip)));
+    const allowed = candidates.filter((_, i) => !throttleErrors[i]);
+    const dummy = await getDummyPassword();
+    const verifications = await Promise.all(allowed.map(({ account }) => verifyPassword(password, account ?? dummy)));
+    const matchIndex = verifications.findIndex(({ valid }, i) => valid && allowed[i].account);
+
+    if (matchIndex === -1) {
+        if (allowed.length > 0) {
+            registerIpFailedAttempt(metadata.ip);
+        }
+
+        await Promise.all(candidates.map(async ({ rut, type, account }, i) => {
+            const throttleError = throttleErrors[i];
+
+            if (throttleError) {
+                await recordLoginAttempt(rut, type, metadata, getThrottleFailureReason(throttleError));
+                return;
+            }
+
+            await registerFailedAttempt(rut, type, account?.email);
+            await recordLoginAttempt(rut, type, metadata, "invalid_credentials");
+        }));
+
+        return throttleErrors.find(error => error !== null) ?? invalidCredentialsResult;
+    }
+
+    const { rut, type } = allowed[matchIndex];
+    const result = await startSession(rut, type, password, verifications[matchIndex].needsRehash, metadata);
+
+    return {
+        ...result,
+        rut,
+        type,
+    };
+}
+
+/**
+ * Completes a challenge given by {@link authenticate} using a TOTP or recovery code, and creates a new session for the
+ * user. If the challenge included an enrollment, it gets confirmed and the new recovery codes are returned.
+ *
+ * Wrong codes count towards the failed attempts of that rut.
+ */
+export async function completeChallenge(
+    rut: string,
+    type: TokenType.MEDIC | TokenType.ADMIN,
+    challenge: string,
+    code: string,
+    metadata: SessionMetadata = {}
+): Promise<Exclude<AuthenticationResult, { challenge: string }>> {
+    const throttleError = await checkThrottle(rut, type, metadata.ip);
+
+    if (throttleError) {
+        await recordLoginAttempt(rut, type, metadata, getThrottleFailureReason(throttleError));
+        return throttleError;
+    }
+
+    const loginChallenge = await db
+        .selectFrom("login_challenge")
+        .select(["id", "attempts"])
+        .where("token", "=", challenge)
+        .where("rut", "=", rut)
+        .where("type", "=", tokenTypeNames[type])
+        .where("expires_at", ">", sql<string>`current_timestamp()`)
+        .executeTakeFirst();
+
+    if (!loginChallenge || loginChallenge.attempts >= maxChallengeAttempts) {
+        await recordLoginAttempt(rut, type, metadata, "invalid_challenge");
+
+        return {
+            ok: false,
+            status: HTTPStatus.UNAUTHORIZED,
+            message: "Invalid or expired challenge.",
+        };
+    }
+
+    const totp = await getTotpStatus(rut);
+    let recoveryCodes: string[] | null = null;
+    let valid: boolean;
+
+    if (totp.enabled) {
+        valid = await verifySecondFactor(rut, code);
+    } else {
+        recoveryCodes = await confirmTotpEnrollment(rut, code);
+        valid = !!recoveryCodes;
+    }
+
+    if (!valid) {
+        await db
+            .updateTable("login_challenge")
+            .set("attempts", sql<number>`attempts + 1`)
+            .where("id", "=", loginChallenge.id)
+            .execute();
+
+        const account = await getAccount(rut, type);
+        registerIpFailedAttempt(metadata.ip);
+        await registerFailedAttempt(rut, type, account?.email);
+        await recordLoginAttempt(rut, type, metadata, "invalid_two_factor_code");
+
+        return {
+            ok: false,
+            status: HTTPStatus.UNAUTHORIZED,
+            message: "Invalid two-factor code.",
+        };
+    }
+
+    await db
+        .deleteFrom("login_challenge")
+        .where("id", "=", loginChallenge.id)
+        .execute();
+
+    await clearFailedAttempts(rut, type);
+    await recordLoginAttempt(rut, type, metadata, null);
+
+    const token = await generateToken(rut, type, metadata);
+
+    return {
+        ok: true,
+        token,
+        ...recoveryCodes && { recoveryCodes },
+    };
+}
+
+/**
+ * Removes the lockout and failed attempts of the specified user.
+ *
+ * @returns Whether the user had any failed attempts or lockout.
+ */
+export async function clearFailedAttempts(rut: string, type: TokenType): Promise<boolean> {
+    const result = await db
+        .deleteFrom("login_throttle")
+        .where("rut", "=", rut)
+        .where("type", "=", tokenTypeNames[type])
+        .executeTakeFirst();
+
+    return result.numDeletedRows > 0n;
+}
+
+export type AccountIdentifier = {
+    rut: string;
+} | {
+    email: string;
+};
+
+export type AuthenticationResult = {
+    ok: true;
+    token: string;
+    /**
+     * Only present when the login also completed a two-factor enrollment.
+     */
+    recoveryCodes?: string[];
+} | {
+    ok: true;
+    challenge: string;
+    /**
+     * Only present when two-factor authentication is required but the employee hasn't enrolled yet.
+     */
+    setup?: TotpEnrollment;
+} | {
+    ok: false;
+    status: HTTPStatus;
+    message: string;
+    /**
+     * In seconds.
+     */
+    retryAfter?: number;
+};
+
+export type IdentifiedAuthenticationResult = Extract<AuthenticationResult, { ok: true }> & {
+    rut: string;
+    type: TokenType;
+} | Extract<AuthenticationResult, { ok: false }>;
+
+async function checkThrottle(
+    rut: string,
+    type: TokenType,
+    ip?: string
+): Promise<Extract<AuthenticationResult, { ok: false }> | null> {
+    const ipRetryAfter = getIpRetryAfter(ip);
+
+    if (ipRetryAfter > 0) {
+        return {
+            ok: false,
+            status: HTTPStatus.TOO_MANY_REQUESTS,
+            message: "Too many failed login attempts, try again later.",
+            retryAfter: ipRetryAfter,
+        };
+    }
+
+    const throttle = await db
+        .selectFrom("login_throttle")
+        .select(({ ref }) => [
+            "failed_attempts as failedAttempts",
+            sql<string | null>`timestampdiff(second, current_timestamp(), ${ref("locked_until")})`
+                .as("lockedFor"),
+            sql<string | null>`timestampdiff(second, ${ref("last_failed_at")}, current_timestamp())`
+                .as("sinceLastFailure"),
+        ])
+        .where("rut", "=", rut)
+        .where("type", "=", tokenTypeNames[type])
+        .executeTakeFirst();
+
+    if (throttle && +(throttle.lockedFor ?? 0) > 0) {
+        return {
+            ok: false,
+            status: HTTPStatus.LOCKED,
+            message: "Account is temporarily locked due to too many failed login attempts.",
+            retryAfter: +throttle.lockedFor!,
+        };
+    }
+
+    if (throttle && throttle.failedAttempts < maxFailedAttempts) {
+        const retryAfter = getAttemptDelay(throttle.failedAttempts) - +(throttle.sinceLastFailure ?? 0);
+
+        if (retryAfter > 0) {
+            return {
+                ok: false,
+                status: HTTPStatus.TOO_MANY_REQUESTS,
+                message: "Too many failed login attempts, try again later.",
+                retryAfter,
+            };
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Replaces any previous challenge of the specified employee.
+ */
+async function createChallenge(rut: string, type: TokenType.MEDIC | TokenType.ADMIN): Promise<string> {
+    const challenge = randomBytes(32).toString("base64url");
+
+    await db.transaction().execute(async (tsx) => {
+        await tsx
+            .deleteFrom("login_challenge")
+            .where(({ eb, and, or }) => or([
+                and([
+                    eb("rut", "=", rut),
+                    eb("type", "=", tokenTypeNames[type]),
+                ]),
+                eb("expires_at", "<=", sql<string>`current_timestamp()`),
+            ]))
+            .execute();
+
+        await tsx
+            .insertInto("login_challenge")
+            .values({
+                token: challenge,
+                rut,
+                type: tokenTypeNames[type],
+                expires_at: sql<string>`current_timestamp() + interval ${challengeLifetime} minute`,
+            })
+            .execute();
+    });
+
+    return challenge;
+}
+
+/**
+ * Finishes the login of a user whose password has already been verified.
+ */
+async function startSession(
+    rut: string,
+    type: TokenType,
+    password: string,
+    needsRehash: boolean,
+    metadata: SessionMetadata
+): Promise<Extract<AuthenticationResult, { ok: true }>> {
+    if (needsRehash) {
+        await db
+            .updateTable(type === TokenType.PATIENT ? "patient" : "employee")
+            .set(await hashPassword(password))
+            .where("rut", "=", rut)
+            .execute();
+    }
+
+    if (type !== TokenType.PATIENT) {
+        const totp = await getTotpStatus(rut);
+
+        if (totp.enabled || totp.required) {
+            // failed attempts are only cleared once the challenge is completed
+            const challenge = await createChallenge(rut, type);
+            const setup = !totp.enabled ? await startTotpEnrollment(rut) : null;
+
+            return {
+                ok: true,
+                challenge,
+                ...setup && { setup },
+            };
+        }
+    }
+
+    await clearFailedAttempts(rut, type);
+    await recordLoginAttempt(rut, type, metadata, null);
+
+    const token = await generateToken(rut, type, metadata);
+
+    return {
+        ok: true,
+        token,
+    };
+}
+
+function getThrottleFailureReason(error: Extract<AuthenticationResult, { ok: false }>): LoginFailureReason {
+    return error.status === HTTPStatus.LOCKED ? "locked" : "throttled";
+}
+
+function registerIpFailedAttempt(ip?: string): void {
+    if (!ip) return;
+
+    const now = Date.now();
+    const attempts = ipFailedAttempts.get(ip);
+
+    if (!attempts || attempts.resetAt <= now) {
+        if (ipFailedAttempts.size >= maxTrackedIps) {
+            purgeIpFailedAttempts(now);
+        }
+
+        ipFailedAttempts.set(ip, {
+            count: 1,
+            resetAt: now + ipWindow,
+        });
+    } else {
+        attempts.count++;
+    }
+}
+
+async function registerFailedAttempt(rut: string, type: TokenType, email?: string): Promise<void> {
+    await db
+        .insertInto("login_throttle")
+        .values({
+            rut,
+            type: tokenTypeNames[type],
+            failed_attempts: 1,
+            last_failed_at: sql<string>`current_timestamp()`,
+        })
+        .onDuplicateKeyUpdate(({ ref }) => ({
+            // assignments are evaluated in order, so this still sees the old locked_until value
+            failed_attempts: sql<number>`if(
+                ${ref("locked_until")} <= current_timestamp(), 1, ${ref("failed_attempts")} + 1
+            )`,
+            locked_until: sql<string>`if(
+                ${ref("locked_until")} <= current_timestamp(), null, ${ref("locked_until")}
+            )`,
+            last_failed_at: sql<string>`current_timestamp()`,
+        }))
+        .execute();
+
+    const lockResult = await db
+        .updateTable("login_throttle")
+        .set("locked_until", sql<string>`current_timestamp() + interval ${lockoutDuration} minute`)
+        .where("rut", "=", rut)
+        .where("type", "=", tokenTypeNames[type])
+        .where("failed_attempts", ">=", maxFailedAttempts)
+        .where("locked_until", "is", null)
+        .executeTakeFirst();
+
+    // not awaited, failed logins must not wait on the mail server
+    if (lockResult.numUpdatedRows > 0n && email) {
+        void sendEmail(
+            email,
+            "Cuenta bloqueada temporalmente",
+            `Tu cuenta ha sido bloqueada por ${lockoutDuration} minutos debido a múltiples intentos fallidos de inicio de `
+            + "sesión. Si no fuiste tú, te recomendamos cambiar tu contraseña."
+        ).catch(error => logger.error("Failed to send lockout email:", error));
+    }
+}
+
+async function getAccount(rut: string, type: TokenType): Promise<Account | undefined> {
+    if (type === TokenType.PATIENT) {
+        return await db
+            .selectFrom("patient")
+            .select(["email", "password", "salt"])
+            .where("rut", "=", rut)
+            .executeTakeFirst();
+    }
+
+    return await db
+        .selectFrom("employee")
+        .select(["email", "password", "salt"])
+        .where("rut", "=", rut)
+        .where("type", "=", type === TokenType.MEDIC ? "medic" : "admin_staff")
+        .executeTakeFirst();
+}
+
+/**
+ * Returns every account registered under the rut or email, patient first.
+ */
+async function findAccounts(identifier: AccountIdentifier): Promise<IdentifiedAccount[]> {
+    const [column, value] = "rut" in identifier ? ["rut", identifier.rut] as const : ["email", identifier.email] as const;
+
+    const patient = await db
+        .selectFrom("patient")
+        .select(["rut", "email", "password", "salt"])
+        .where(column, "=", value)
+        .executeTakeFirst();
+
+    const employee = await db
+        .selectFrom("employee")
+        .select(["rut", "type", "email", "password", "salt"])
+        .where(column, "=", value)
+        .executeTakeFirst();
+
+    const accounts: IdentifiedAccount[] = [];
+
+    if (patient) {
+        const { rut, ...account } = patient;
+
+        accounts.push({
+            rut,
+            type: TokenType.PATIENT,
+            account,
+        });
+    }
+
+    if (employee) {
+        const { rut, type, ...account } = employee;
+
+        accounts.push({
+            rut,
+            type: type === "medic" ? TokenType.MEDIC : TokenType.ADMIN,
+            account,
+        });
+    }
+
+    return accounts;
+}
+
+async function getDummyPassword(): Promise<HashedPassword> {
+    dummyPassword ??= await hashPassword("");
+    return dummyPassword;
+}
+
+/**
+ * In seconds.
+ */
+function getAttemptDelay(failedAttempts: number): number {
+    if (failedAttempts < failedAttemptsBeforeDelay) {
+        return 0;
+    }
+
+    return Math.min(2 ** (failedAttempts - failedAttemptsBeforeDelay), maxAttemptDelay);
+}
+
+function purgeIpFailedAttempts(now: number): void {
+    for (const [ip, { resetAt }] of ipFailedAttempts) {
+        if (resetAt <= now) ipFailedAttempts.delete(ip);
+    }
+}
+
+/**
+ * In seconds.
+ */
+function getIpRetryAfter(ip?: string): number {
+    const attempts = ip ? ipFailedAttempts.get(ip) : undefined;
+
+    if (!attempts) {
+        return 0;
+    }
+
+    const now = Date.now();
+
+    if (attempts.resetAt <= now) {
+        ipFailedAttempts.delete(ip!);
+        return 0;
+    }
+
+    return attempts.count >= maxFailedAttemptsPerIp ? Math.ceil((attempts.resetAt - now) / 1000) : 0;
+}
+
+type Account = HashedPassword & {
+    email: string;
+};
+
+/**
+ * The account may be missing when looking up a rut that isn't registered.
+ */
+type IdentifiedAccount = {
+    rut: string;
+    type: TokenType;
+    account?: Account;
+};
+
+type IpFailedAttempts = {
+    count: number;
+    resetAt: number;
+};
@@ -1,6 +1,6 @@
 // noinspection JSUnusedGlobalSymbols
 
-import { createHash, randomBytes } from "crypto";
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
 import { ColumnType, Insertable, Kysely, MysqlDialect, Selectable, Updateable } from "kysely";
 import { createPool } from "mysql2";
 import { Field, Next } from "mysql2/typings/mysql/lib/parsers/typeCast";
@@ -11,6 +11,20 @@ let connected = false;
 export let db: Kysely<DB>;
 
 const rutValidationSequence = [2, 3, 4, 5, 6, 7] as const;
+
+/**
+ * Version of the encoded password hash format. Must be bumped whenever the scrypt parameters change, so hashes using
+ * the old parameters get upgraded on the next successful login.
+ */
+const passwordHashVersion = 1;
+const scryptParams = {
+    N: 2 ** 15,
+    r: 8,
+    p: 1,
+    maxmem: 64 * 1024 * 1024,
+} as const;
+const scryptKeyLength = 64;
+const passwordHashRegex = /^\$scrypt\$v=(\d+)\$N=(\d+),r=(\d+),p=(\d+)\$([A-Za-z0-9_-]+)\$([A-Za-z0-9_-]+)$/;
 // eslint-disable-next-line no-useless-escape, max-len
 const emailRegex = /^(([^<>()\[\]\\.,;:\s@"]+(\.[^<>()\[\]\\.,;:\s@"]+)*)|(".+"))@((\[[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}])|(([a-zA-Z\-0-9]+\.)+[a-zA-Z]{2,}))$/;
 
@@ -76,19 +90,110 @@ export function isValidPhone(phone: number): boolean {
     return phone >= 100000000 && phone <= 999999999;
 }
 
-export function hashPassword(password: string): HashedPassword {
-    const salt = randomBytes(32).toString("base64url");
-    const hashedPassword = createHash("sha512").update(password + salt).digest("base64url");
+/**
+ * Password policy: between 8 and 128 characters long, containing at least one letter and one digit.
+ */
+export function isValidPassword(password: string): boolean {
+    return password.length >= 8
+        && password.length <= 128
+        && /\p{L}/u.test(password)
+        && /\d/.test(password);
+}
+
+/**
+ * Hashes the password using scrypt. The result is encoded as
+ * `$scrypt$v=<version>$N=<cost>,r=<block size>,p=<parallelization>$<salt>$<hash>`, so the salt is already included
+ * and `salt` is always `null`.
+ */
+export async function hashPassword(password: string): Promise<HashedPassword> {
+    const salt = randomBytes(32);
+    const hash = await deriveKey(password, salt, scryptParams);
+    const { N, r, p } = scryptParams;
+
+    return {
+        password: `$scrypt$v=${passwordHashVersion}$N=${N},r=${r},p=${p}$${salt.toString("base64url")}$`
+            + hash.toString("base64url"),
+        salt: null,
+    };
+}
+
+/**
+ * Checks the password against a stored hash. Supports both the scrypt format and the legacy salted SHA-512 hashes.
+ */
+export async function verifyPassword(password: string, hashed: HashedPassword): Promise<PasswordVerification> {
+    const match = hashed.password.match(passwordHashRegex);
+
+    if (!match) {
+        if (!hashed.salt) {
+            return {
+                valid: false,
+                needsRehash: false,
+            };
+        }
+
+        const legacyHash = createHash("sha512").update(password + hashed.salt).digest();
+
+        return {
+            valid: safeEqual(legacyHash, Buffer.from(hashed.password, "base64url")),
+            needsRehash: true,
+        };
+    }
+
+    const [, version, N, r, p, salt, hash] = match;
+    const expectedHash = Buffer.from(hash, "base64url");
+    const actualHash = await deriveKey(password, Buffer.from(salt, "base64url"), {
+        N: +N,
+        r: +r,
+        p: +p,
+        maxmem: scryptParams.maxmem,
+    }, expectedHash.length);
 
     return {
-        password: hashedPassword,
-        salt,
+        valid: safeEqual(actualHash, expectedHash),
+        needsRehash: +version !== passwordHashVersion,
     };
 }
 
 export type HashedPassword = {
     password: string;
-    salt: string;
+    salt: string | null;
+};
+
+export type PasswordVerification = {
+    valid: boolean;
+    /**
+     * Whether the stored hash uses an outdated format and should be replaced with a new one.
+     */
+    needsRehash: boolean;
+};
+
+function deriveKey(
+    password: string,
+    salt: Buffer,
+    params: ScryptParams,
+    keyLength: number = scryptKeyLength
+): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        scrypt(password, salt, keyLength, params, (error, key) => {
+            if (error) {
+                reject(error);
+                return;
+            }
+
+            resolve(key);
+        });
+    });
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+type ScryptParams = {
+    N: number;
+    r: number;
+    p: number;
+    maxmem: number;
 };
 
 export type Generated<T> = T extends ColumnType<infer S, infer I, infer U>
@@ -100,6 +205,98 @@ export type Generated<T> = T extends ColumnType<infer S, infer I, infer U>
  */
 export type BigIntString = `${number}`;
 
+/**
+ * - Table name: `account_role`
+ * - Primary key: `(rut, type, role_id)`
+ */
+export type AccountRoleTable = {
+    /**
+     * - SQL: `rut varchar(11) not null`
+     */
+    rut: string;
+    /**
+     * - SQL: `type enum("patient", "medic", "admin") not null`
+     */
+    type: "patient" | "medic" | "admin";
+    /**
+     * - SQL: `role_id int unsigned not null`
+     * - Foreign key: `role.id`
+     */
+    role_id: number;
+};
+
+export type AccountRole = Selectable<AccountRoleTable>;
+export type NewAccountRole = Insertable<AccountRoleTable>;
+export type AccountRoleUpdate = Updateable<AccountRoleTable>;
+
+/**
+ * - Table name: `api_key`
+ * - Primary key: `(id)`
+ * - Indexes:
+ *   - `(key_hash)`
+ */
+export type ApiKeyTable = {
+    /**
+     * - SQL: `id bigint unsigned primary key auto_increment`
+     */
+    id: Generated<BigIntString>;
+    /**
+     * - SQL: `name varchar(64) not null check (name != "")`
+     */
+    name: string;
+    /**
+     * - SQL: `key_hash char(43) unique not null`
+     *
+     * Base64url-encoded SHA-256 hash of the key, which is only shown once when created.
+     */
+    key_hash: string;
+    /**
+     * - SQL: `created_by varchar(11) not null`
+     * - Foreign key: `employee.rut`
+     */
+    created_by: string;
+    /**
+     * - SQL: `created_at datetime not null default current_timestamp`
+     */
+    created_at: Generated<string>;
+    /**
+     * - SQL: `expires_at datetime default null`
+     */
+    expires_at: string | null;
+    /**
+     * - SQL: `last_used_at datetime default null`
+     */
+    last_used_at: string | null;
+    /**
+     * - SQL: `revoked_at datetime default null`
+     */
+    revoked_at: string | null;
+};
+
+export type ApiKey = Selectable<ApiKeyTable>;
+export type NewApiKey = Insertable<ApiKeyTable>;
+export type ApiKeyUpdate = Updateable<ApiKeyTable>;
+
+/**
+ * - Table name: `api_key_permission`
+ * - Primary key: `(api_key_id, permission)`
+ */
+export type ApiKeyPermissionTable = {
+    /**
+     * - SQL: `api_key_id bigint unsigned not null`
+     * - Foreign key: `api_key.id`
+     */
+    api_key_id: BigIntString;
+    /**
+     * - SQL: `permission varchar(64) not null`
+     */
+    permission: string;
+};
+
+export type ApiKeyPermission = Selectable<ApiKeyPermissionTable>;
+export type NewApiKeyPermission = Insertable<ApiKeyPermissionTable>;
+export type ApiKeyPermissionUpdate = Updateable<ApiKeyPermissionTable>;
+
 /**
  * - Table name: `appointment`
  * - Primary key: `(time_slot_id, date)`
@@ -133,6 +330,12 @@ export type AppointmentTable = {
      * - SQL: `confirmed boolean not null default false`
      */
     confirmed: Generated<boolean>;
+    /**
+     * - SQL: `updated_at datetime(6) not null default current_timestamp(6) on update current_timestamp(6) invisible`
+     *
+     * Identifies the version of the row, used for the resource's ETag. Invisible, so it's left out of positional inserts.
+     */
+    updated_at: Generated<string>;
 };
 
 export type Appointment = Selectable<AppointmentTable>;
@@ -192,6 +395,12 @@ export type ClinicTable = {
      * - SQL: `closing_time time not null`
      */
     closing_time: string;
+    /**
+     * - SQL: `updated_at datetime(6) not null default current_timestamp(6) on update current_timestamp(6) invisible`
+     *
+     * Identifies the version of the row, used for the resource's ETag. Invisible, so it's left out of positional inserts.
+     */
+    updated_at: Generated<string>;
 };
 
 export type Clinic = Selectable<ClinicTable>;
@@ -204,7 +413,6 @@ export type ClinicUpdate = Updateable<ClinicTable>;
  * - Indexes:
  *   - `(email)`
  *   - `(phone)`
- *   - `(session_token)`
  */
 export type EmployeeTable = {
     /**
@@ -249,23 +457,197 @@ export type EmployeeTable = {
      */
     gender: string;
     /**
-     * - SQL: `password char(86) not null check (password != "")`
+     * - SQL: `password varchar(256) not null check (password != "")`
      */
     password: string;
     /**
-     * - SQL: `salt char(43) not null check (salt != "")`
+     * - SQL: `salt char(43) check (salt is null or salt != "")`
+     *
+     * Only used by legacy SHA-512 password hashes.
      */
-    salt: string;
+    salt: string | null;
     /**
-     * - SQL: `session_token char(86) unique check (session_token is null or session_token != "")`
+     * - SQL: `updated_at datetime(6) not null default current_timestamp(6) on update current_timestamp(6) invisible`
+     *
+     * Identifies the version of the row, used for the resource's ETag. Invisible, so it's left out of positional inserts.
      */
-    session_token: string | null;
+    updated_at: Generated<string>;
 };
 
 export type Employee = Selectable<EmployeeTable>;
 export type NewEmployee = Insertable<EmployeeTable>;
 export type EmployeeUpdate = Updateable<EmployeeTable>;
 
+/**
+ * - Table name: `employee_totp`
+ * - Primary key: `(rut)`
+ */
+export type EmployeeTotpTable = {
+    /**
+     * - SQL: `rut varchar(11) primary key`
+     * - Foreign key: `employee.rut`
+     */
+    rut: string;
+    /**
+     * - SQL: `secret char(32) default null`
+     *
+     * Base32-encoded. Set while enrolling, before the first code is verified.
+     */
+    secret: string | null;
+    /**
+     * - SQL: `enabled boolean not null default false`
+     */
+    enabled: Generated<boolean>;
+    /**
+     * - SQL: `required boolean not null default false`
+     *
+     * Set by admins, forces the employee to enroll on their next login.
+     */
+    required: Generated<boolean>;
+    /**
+     * - SQL: `last_used_step bigint unsigned default null`
+     *
+     * Time step of the last accepted code, used to reject replayed codes.
+     */
+    last_used_step: BigIntString | null;
+};
+
+export type EmployeeTotp = Selectable<EmployeeTotpTable>;
+export type NewEmployeeTotp = Insertable<EmployeeTotpTable>;
+export type EmployeeTotpUpdate = Updateable<EmployeeTotpTable>;
+
+/**
+ * - Table name: `idempotency_key`
+ * - Primary key: `(id)`
+ * - Indexes:
+ *   - `(client, idempotency_key)`
+ *   - `(expires_at)`
+ */
+export type IdempotencyKeyTable = {
+    /**
+     * - SQL: `id bigint unsigned primary key auto_increment`
+     */
+    id: Generated<BigIntString>;
+    /**
+     * - SQL: `client varchar(64) not null`
+     */
+    client: string;
+    /**
+     * - SQL: `idempotency_key varchar(255) not null`
+     */
+    idempotency_key: string;
+    /**
+     * - SQL: `fingerprint char(43) not null`
+     */
+    fingerprint: string;
+    /**
+     * - SQL: `response_status smallint unsigned`
+     *
+     * `null` while the original request is in progress.
+     */
+    response_status: number | null;
+    /**
+     * - SQL: `response_body mediumtext`
+     *
+     * JSON of the original response, `null` if it didn't have a body.
+     */
+    response_body: string | null;
+    /**
+     * - SQL: `created_at datetime not null default current_timestamp`
+     */
+    created_at: Generated<string>;
+    /**
+     * - SQL: `expires_at datetime not null`
+     */
+    expires_at: string;
+};
+
+export type IdempotencyKey = Selectable<IdempotencyKeyTable>;
+export type NewIdempotencyKey = Insertable<IdempotencyKeyTable>;
+export type IdempotencyKeyUpdate = Updateable<IdempotencyKeyTable>;
+
+/**
+ * - Table name: `impersonation`
+ * - Primary key: `(id)`
+ * - Indexes:
+ *   - `(rut, type)`
+ */
+export type ImpersonationTable = {
+    /**
+     * - SQL: `id bigint unsigned primary key auto_increment`
+     */
+    id: Generated<BigIntString>;
+    /**
+     * - SQL: `admin_rut varchar(11) not null`
+     * - Foreign key: `employee.rut`
+     */
+    admin_rut: string;
+    /**
+     * - SQL: `rut varchar(11) not null`
+     *
+     * Rut of the impersonated user.
+     */
+    rut: string;
+    /**
+     * - SQL: `type enum("patient", "medic") not null`
+     */
+    type: "patient" | "medic";
+    /**
+     * - SQL: `started_at datetime not null default current_timestamp`
+     */
+    started_at: Generated<string>;
+    /**
+     * - SQL: `ended_at datetime default null`
+     *
+     * Set once the session is revoked or expires.
+     */
+    ended_at: string | null;
+};
+
+export type Impersonation = Selectable<ImpersonationTable>;
+export type NewImpersonation = Insertable<ImpersonationTable>;
+export type ImpersonationUpdate = Updateable<ImpersonationTable>;
+
+/**
+ * - Table name: `impersonation_action`
+ * - Primary key: `(id)`
+ */
+export type ImpersonationActionTable = {
+    /**
+     * - SQL: `id bigint unsigned primary key auto_increment`
+     */
+    id: Generated<BigIntString>;
+    /**
+     * - SQL: `impersonation_id bigint unsigned not null`
+     * - Foreign key: `impersonation.id`
+     */
+    impersonation_id: BigIntString;
+    /**
+     * - SQL: `method varchar(7) not null`
+     */
+    method: string;
+    /**
+     * - SQL: `path varchar(256) not null`
+     */
+    path: string;
+    /**
+     * - SQL: `status smallint unsigned not null`
+     */
+    status: number;
+    /**
+     * - SQL: `completed boolean not null`
+     */
+    completed: boolean;
+    /**
+     * - SQL: `created_at datetime not null default current_timestamp`
+     */
+    created_at: Generated<string>;
+};
+
+export type ImpersonationAction = Selectable<ImpersonationActionTable>;
+export type NewImpersonationAction = Insertable<ImpersonationActionTable>;
+export type ImpersonationActionUpdate = Updateable<ImpersonationActionTable>;
+
 /**
  * - Table name: `insurance_type`
  * - Primary key: `(id)`
@@ -285,6 +667,124 @@ export type InsuranceType = Selectable<InsuranceTypeTable>;
 export type NewInsuranceType = Insertable<InsuranceTypeTable>;
 export type InsuranceTypeUpdate = Updateable<InsuranceTypeTable>;
 
+/**
+ * - Table name: `login_challenge`
+ * - Primary key: `(id)`
+ * - Indexes:
+ *   - `(token)`
+ */
+export type LoginChallengeTable = {
+    /**
+     * - SQL: `id bigint unsigned primary key auto_increment`
+     */
+    id: Generated<BigIntString>;
+    /**
+     * - SQL: `token char(43) unique not null`
+     */
+    token: string;
+    /**
+     * - SQL: `rut varchar(11) not null`
+     */
+    rut: string;
+    /**
+     * - SQL: `type enum("medic", "admin") not null`
+     */
+    type: "medic" | "admin";
+    /**
+     * - SQL: `expires_at datetime not null`
+     */
+    expires_at: string;
+    /**
+     * - SQL: `attempts tinyint unsigned not null default 0`
+     */
+    attempts: Generated<number>;
+};
+
+export type LoginChallenge = Selectable<LoginChallengeTable>;
+export type NewLoginChallenge = Insertable<LoginChallengeTable>;
+export type LoginChallengeUpdate = Updateable<LoginChallengeTable>;
+
+/**
+ * - Table name: `login_history`
+ * - Primary key: `(id)`
+ * - Indexes:
+ *   - `(rut, type, created_at)`
+ *   - `(created_at)`
+ */
+export type LoginHistoryTable = {
+    /**
+     * - SQL: `id bigint unsigned primary key auto_increment`
+     */
+    id: Generated<BigIntString>;
+    /**
+     * - SQL: `rut varchar(11) not null`
+     *
+     * May not belong to any existing account.
+     */
+    rut: string;
+    /**
+     * - SQL: `type enum("patient", "medic", "admin") not null`
+     */
+    type: "patient" | "medic" | "admin";
+    /**
+     * - SQL: `success boolean not null`
+     */
+    success: boolean;
+    /**
+     * - SQL: `failure_reason enum("invalid_credentials", "invalid_challenge", "invalid_two_factor_code", "locked",
+     *   "throttled") default null`
+     */
+    failure_reason: "invalid_credentials" | "invalid_challenge" | "invalid_two_factor_code" | "locked" | "throttled"
+        | null;
+    /**
+     * - SQL: `user_agent varchar(256) default null`
+     */
+    user_agent: string | null;
+    /**
+     * - SQL: `ip varchar(45) default null`
+     */
+    ip: string | null;
+    /**
+     * - SQL: `created_at datetime not null default current_timestamp`
+     */
+    created_at: Generated<string>;
+};
+
+export type LoginHistory = Selectable<LoginHistoryTable>;
+export type NewLoginHistory = Insertable<LoginHistoryTable>;
+export type LoginHistoryUpdate = Updateable<LoginHistoryTable>;
+
+/**
+ * - Table name: `login_throttle`
+ * - Primary key: `(rut, type)`
+ */
+export type LoginThrottleTable = {
+    /**
+     * - SQL: `rut varchar(11) not null`
+     */
+    rut: string;
+    /**
+     * - SQL: `type enum("patient", "medic", "admin") not null`
+     */
+    type: "patient" | "medic" | "admin";
+    /**
+     * - SQL: `failed_attempts int unsigned not null default 0`
+     */
+    failed_attempts: Generated<number>;
+    /**
+     * - SQL: `last_failed_at datetime default null`
+     */
+    last_failed_at: string | null;
+    /**
+     * - SQL: `locked_until datetime default null`
+     */
+    locked_until: string | null;
+};
+
+export type LoginThrottle = Selectable<LoginThrottleTable>;
+export type NewLoginThrottle = Insertable<LoginThrottleTable>;
+export type LoginThrottleUpdate = Updateable<LoginThrottleTable>;
+
 /**
  * - Table name: `medic`
  * - Primary key: `(rut)`
@@ -305,19 +805,69 @@ export type MedicTable = {
      * - Foreign key: `schedule.id`
      */
     schedule_id: number;
+    /**
+     * - SQL: `updated_at datetime(6) not null default current_timestamp(6) on update current_timestamp(6) invisible`
+     *
+     * Identifies the version of the row, used for the resource's ETag. Invisible, so it's left out of positional inserts.
+     */
+    updated_at: Generated<string>;
 };
 
 export type Medic = Selectable<MedicTable>;
 export type NewMedic = Insertable<MedicTable>;
 export type MedicUpdate = Updateable<MedicTable>;
 
+/**
+ * - Table name: `password_reset`
+ * - Primary key: `(id)`
+ * - Indexes:
+ *   - `(rut, type)`
+ */
+export type PasswordResetTable = {
+    /**
+     * - SQL: `id bigint unsigned primary key auto_increment`
+     */
+    id: Generated<BigIntString>;
+    /**
+     * - SQL: `rut varchar(11) not null`
+     */
+    rut: string;
+    /**
+     * - SQL: `type enum("patient", "medic", "admin") not null`
+     */
+    type: "patient" | "medic" | "admin";
+    /**
+     * - SQL: `code_hash char(43) not null`
+     */
+    code_hash: string;
+    /**
+     * - SQL: `created_at datetime not null default current_timestamp`
+     */
+    created_at: Generated<string>;
+    /**
+     * - SQL: `expires_at datetime not null`
+     */
+    expires_at: string;
+    /**
+     * - SQL: `attempts tinyint unsigned not null default 0`
+     */
+    attempts: Generated<number>;
+    /**
+     * - SQL: `used boolean not null default false`
+     */
+    used: Generated<boolean>;
+};
+
+export type PasswordReset = Selectable<PasswordResetTable>;
+export type NewPasswordReset = Insertable<PasswordResetTable>;
+export type PasswordResetUpdate = Updateable<PasswordResetTable>;
+
 /**
  * - Table name: `patient`
  * - Primary key: `(rut)`
  * - Indexes:
  *   - `(email)`
  *   - `(phone)`
- *   - `(session_token)`
  */
 export type PatientTable = {
     /**
@@ -345,6 +895,10 @@ export type PatientTable = {
      * "^(([^<>()\\[\\]\\\\.,;:\\s@\"]+(\\.[^<>()\\[\\]\\\\.,;:\\s@\"]+)*)|(\".+\"))@((\\[[0-9]{1,3}\\.[0-9]{1,3}\\.[0-9]{1,3}\\.[0-9]{1,3}])|(([a-za-z\\-0-9]+\\.)+[a-za-z]{2,}))$")`
      */
     email: string;
+    /**
+     * - SQL: `email_verified boolean not null default false`
+     */
+    email_verified: Generated<boolean>;
     /**
      * - SQL: `phone int unsigned unique not null check (phone >= 100000000 and phone <= 999999999)`
      */
@@ -396,23 +950,74 @@ export type PatientTable = {
      */
     medications: Generated<string> | null;
     /**
-     * - SQL: `password char(86) not null check (password != "")`
+     * - SQL: `password varchar(256) not null check (password != "")`
      */
     password: string;
     /**
-     * - SQL: `salt char(43) not null check (salt != "")`
+     * - SQL: `salt char(43) check (salt is null or salt != "")`
+     *
+     * Only used by legacy SHA-512 password hashes.
      */
-    salt: string;
+    salt: string | null;
     /**
-     * - SQL: `session_token char(86) unique check (session_token is null or session_token != "")`
+     * - SQL: `updated_at datetime(6) not null default current_timestamp(6) on update current_timestamp(6) invisible`
+     *
+     * Identifies the version of the row, used for the resource's ETag. Invisible, so it's left out of positional inserts.
      */
-    session_token: string | null;
+    updated_at: Generated<string>;
 };
 
 export type Patient = Selectable<PatientTable>;
 export type NewPatient = Insertable<PatientTable>;
 export type PatientUpdate = Updateable<PatientTable>;
 
+/**
+ * - Table name: `role`
+ * - Primary key: `(id)`
+ * - Indexes:
+ *   - `(name)`
+ */
+export type RoleTable = {
+    /**
+     * - SQL: `id int unsigned primary key auto_increment`
+     */
+    id: Generated<number>;
+    /**
+     * - SQL: `name varchar(32) unique not null check (name != "")`
+     */
+    name: string;
+    /**
+     * - SQL: `account_type enum("patient", "medic", "admin") default null`
+     *
+     * If set, the role is granted to every account of this type.
+     */
+    account_type: "patient" | "medic" | "admin" | null;
+};
+
+export type Role = Selectable<RoleTable>;
+export type NewRole = Insertable<RoleTable>;
+export type RoleUpdate = Updateable<RoleTable>;
+
+/**
+ * - Table name: `role_permission`
+ * - Primary key: `(role_id, permission)`
+ */
+export type RolePermissionTable = {
+    /**
+     * - SQL: `role_id int unsigned not null`
+     * - Foreign key: `role.id`
+     */
+    role_id: number;
+    /**
+     * - SQL: `permission varchar(64) not null check (permission != "")`
+     */
+    permission: string;
+};
+
+export type RolePermission = Selectable<RolePermissionTable>;
+export type NewRolePermission = Insertable<RolePermissionTable>;
+export type RolePermissionUpdate = Updateable<RolePermissionTable>;
+
 /**
  * - Table name: `schedule`
  * - Primary key: `(id)`
@@ -428,6 +1033,86 @@ export type Schedule = Selectable<ScheduleTable>;
 export type NewSchedule = Insertable<ScheduleTable>;
 export type ScheduleUpdate = Updateable<ScheduleTable>;
 
+/**
+ * - Table name: `session`
+ * - Primary key: `(id)`
+ * - Indexes:
+ *   - `(token)`
+ *   - `(rut, type)`
+ */
+export type SessionTable = {
+    /**
+     * - SQL: `id bigint unsigned primary key auto_increment`
+     */
+    id: Generated<BigIntString>;
+    /**
+     * - SQL: `token char(86) unique not null check (token != "")`
+     */
+    token: string;
+    /**
+     * - SQL: `rut varchar(11) not null`
+     */
+    rut: string;
+    /**
+     * - SQL: `type enum("patient", "medic", "admin") not null`
+     */
+    type: "patient" | "medic" | "admin";
+    /**
+     * - SQL: `created_at datetime not null default current_timestamp`
+     */
+    created_at: Generated<string>;
+    /**
+     * - SQL: `last_used_at datetime not null default current_timestamp`
+     */
+    last_used_at: Generated<string>;
+    /**
+     * - SQL: `user_agent varchar(256) default null`
+     */
+    user_agent: string | null;
+    /**
+     * - SQL: `ip varchar(45) default null`
+     */
+    ip: string | null;
+    /**
+     * - SQL: `impersonation_id bigint unsigned default null`
+     * - Foreign key: `impersonation.id`
+     *
+     * Only set for sessions created by an admin impersonating the user.
+     */
+    impersonation_id: BigIntString | null;
+};
+
+export type Session = Selectable<SessionTable>;
+export type NewSession = Insertable<SessionTable>;
+export type SessionUpdate = Updateable<SessionTable>;
+
+/**
+ * - Table name: `session_revocation`
+ * - Primary key: `(version)`
+ */
+export type SessionRevocationTable = {
+    /**
+     * - SQL: `version bigint unsigned primary key auto_increment`
+     *
+     * Polled by every API instance, so they can evict revoked sessions from their caches.
+     */
+    version: Generated<BigIntString>;
+    /**
+     * - SQL: `session_id bigint unsigned not null`
+     *
+     * Not a foreign key, since the session is deleted when revoked.
+     */
+    session_id: BigIntString;
+    /**
+     * - SQL: `created_at datetime not null default current_timestamp`
+     */
+    created_at: Generated<string>;
+};
+
+export type SessionRevocation = Selectable<SessionRevocationTable>;
+export type NewSessionRevocation = Insertable<SessionRevocationTable>;
+export type SessionRevocationUpdate = Updateable<SessionRevocationTable>;
+
 /**
  * - Table name: `specialty`
  * - Primary key: `(id)`
@@ -482,15 +1167,59 @@ export type TimeSlot = Selectable<TimeSlotTable>;
 export type NewTimeSlot = Insertable<TimeSlotTable>;
 export type TimeSlotUpdate = Updateable<TimeSlotTable>;
 
+/**
+ * - Table name: `totp_recovery_code`
+ * - Primary key: `(id)`
+ */
+export type TotpRecoveryCodeTable = {
+    /**
+     * - SQL: `id bigint unsigned primary key auto_increment`
+     */
+    id: Generated<BigIntString>;
+    /**
+     * - SQL: `rut varchar(11) not null`
+     * - Foreign key: `employee.rut`
+     */
+    rut: string;
+    /**
+     * - SQL: `code_hash char(43) not null`
+     */
+    code_hash: string;
+    /**
+     * - SQL: `used boolean not null default false`
+     */
+    used: Generated<boolean>;
+};
+
+export type TotpRecoveryCode = Selectable<TotpRecoveryCodeTable>;
+export type NewTotpRecoveryCode = Insertable<TotpRecoveryCodeTable>;
+export type TotpRecoveryCodeUpdate = Updateable<TotpRecoveryCodeTable>;
+
 export type DB = {
+    account_role: AccountRoleTable;
+    api_key: ApiKeyTable;
+    api_key_permission: ApiKeyPermissionTable;
     appointment: AppointmentTable;
     blood_type: BloodTypeTable;
     clinic: ClinicTable;
     employee: EmployeeTable;
+    employee_totp: EmployeeTotpTable;
+    idempotency_key: IdempotencyKeyTable;
+    impersonation: ImpersonationTable;
+    impersonation_action: ImpersonationActionTable;
     insurance_type: InsuranceTypeTable;
+    login_challenge: LoginChallengeTable;
+    login_history: LoginHistoryTable;
+    login_throttle: LoginThrottleTable;
     medic: MedicTable;
+    password_reset: PasswordResetTable;
     patient: PatientTable;
+    role: RoleTable;
+    role_permission: RolePermissionTable;
     schedule: ScheduleTable;
+    session: SessionTable;
+    session_revocation: SessionRevocationTable;
     specialty: SpecialtyTable;
     time_slot: TimeSlotTable;
+    totp_recovery_code: TotpRecoveryCodeTable;
 };
@@ -0,0 +1,96 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { sendEmail } from "./email/sender";
+import logger from "./logger";
+
+/**
+ * In hours.
+ */
+export const emailVerificationTokenLifetime = 24;
+
+// deferred initialization, must wait for env variables to be ready
+let secret: Buffer | undefined;
+
+/**
+ * Whether patients must verify their email address before booking appointments. Can be disabled by setting the
+ * `EMAIL_VERIFICATION_REQUIRED` env variable to `false`.
+ */
+export function isEmailVerificationRequired(): boolean {
+    return process.env.EMAIL_VERIFICATION_REQUIRED !== "false";
+}
+
+/**
+ * Sends a signed verification token to the patient's email. The token is bound to that exact email address, so it
+ * stops working if the patient changes it.
+ *
+ * If the `EMAIL_VERIFICATION_URL` env variable is set, the email also includes a link to it with the `rut` and `token`
+ * query parameters.
+ */
+export async function sendEmailVerification(rut: string, email: string): Promise<void> {
+    const token = createEmailVerificationToken(rut, email);
+    const baseUrl = process.env.EMAIL_VERIFICATION_URL;
+
+    const link = baseUrl ? `${baseUrl}?${new URLSearchParams({ rut, token })}` : null;
+
+    const body = link
+        ? `Para verificar tu correo electrónico, ingresa al siguiente enlace: ${link}`
+        : `Para verificar tu correo electrónico, utiliza el siguiente código: ${token}`;
+
+    await sendEmail(
+        email,
+        "Verifica tu correo electrónico",
+        `${body}\n\nEste código expira en ${emailVerificationTokenLifetime} horas.`
+    );
+}
+
+/**
+ * @returns The email address the token was issued for, or `null` if it's invalid, expired or issued for someone else.
+ */
+export function verifyEmailVerificationToken(rut: string, token: string): string | null {
+    const [payload, signature] = token.split(".");
+
+    if (!payload || !signature) {
+        return null;
+    }
+
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(signature);
+
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        return null;
+    }
+
+    const [tokenRut, expiresAt, ...emailParts] = Buffer.from(payload, "base64url").toString().split(":");
+    const email = emailParts.join(":");
+
+    if (tokenRut !== rut || !email || +expiresAt <= Date.now()) {
+        return null;
+    }
+
+    return email;
+}
+
+function createEmailVerificationToken(rut: string, email: string): string {
+    const expiresAt = Date.now() + emailVerificationTokenLifetime * 3_600_000;
+    // the email goes last since it's the only part that may contain colons
+    const payload = Buffer.from(`${rut}:${expiresAt}:${email}`).toString("base64url");
+
+    return `${payload}.${sign(payload)}`;
+}
+
+function sign(payload: string): string {
+    return createHmac("sha256", getSecret()).update(payload).digest("base64url");
+}
+
+function getSecret(): Buffer {
+    if (!secret) {
+        const envSecret = process.env.EMAIL_VERIFICATION_SECRET;
+
+        if (!envSecret) {
+            logger.warn("EMAIL_VERIFICATION_SECRET is not set, verification tokens will not survive a restart.");
+        }
+
+        secret = envSecret ? Buffer.from(envSecret) : randomBytes(32);
+    }
+
+    return secret;
+}
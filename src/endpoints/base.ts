@@ -1,6 +1,44 @@
+import { createHash } from "crypto";
 import { Request, Response } from "express";
+import { SelectQueryBuilder, sql } from "kysely";
+import { getApiKeyData } from "../apiKeys";
+import { translateError } from "../errors";
 import logger from "../logger";
-import { getTokenData, Token, TokenType } from "../tokens";
+import {
+    completeIdempotentRequest,
+    discardIdempotentRequest,
+    getRequestFingerprint,
+    startIdempotentRequest,
+} from "../idempotency";
+import { recordImpersonatedRequest } from "../impersonation";
+import { getTokenPermissions, Permission } from "../permissions";
+import { consumeRateLimit } from "../rateLimit";
+import { getTokenData, isTokenExpired, SessionMetadata, Token, TokenType } from "../tokens";
+
+/**
+ * Tokens resolved by the route wrappers, so handlers can access them synchronously.
+ */
+const requestTokens = new WeakMap<object, Token>();
+/**
+ * Pagination, sorting and filters requested in routes with the `list` option.
+ */
+const requestListQueries = new WeakMap<object, ListQuery>();
+/**
+ * Fields and relations requested in routes with the `fields` option.
+ */
+const requestFieldSelections = new WeakMap<object, FieldSelection>();
+/**
+ * Files requested in routes with the `csv` option, as long as the client negotiated CSV over JSON.
+ */
+const requestCsvExports = new WeakMap<object, CsvExport>();
+
+/**
+ * Printable ASCII characters, without spaces.
+ */
+const idempotencyKeyRegex = /^[\x21-\x7e]{1,255}$/;
+
+export const defaultPageSize = 50;
+export const maxPageSize = 500;
 
 export abstract class Endpoint {
     protected constructor(public readonly path: string) {
@@ -28,16 +66,175 @@ export abstract class Endpoint {
         });
     }
 
+    /**
+     * Sends the resource along with its `ETag`, derived from the versions of the rows it's made of. Express responds with
+     * 304 instead if it matches the `If-None-Match` header.
+     *
+     * If the request embeds related resources, the `ETag` also depends on them, so it's weak and can't be used in
+     * `If-Match`.
+     */
+    protected async sendResource<R extends Response>(
+        request: Request<any, any, any, any>,
+        response: R,
+        data: ResponseBodyType<R>,
+        ...versions: string[]
+    ): Promise<void> {
+        const [result] = await this.selectFields(request, [data]);
+        const embedsRelations = (requestFieldSelections.get(request)?.include.length ?? 0) > 0;
+
+        response.setHeader("ETag", embedsRelations
+            ? `W/${getETag([...versions, JSON.stringify(result)])}`
+            : getETag(versions));
+        response.status(HTTPStatus.OK).send(result);
+    }
+
+    /**
+     * Compares the `If-Match` header against the current versions of the resource, as they're passed to
+     * {@link Endpoint.sendResource}, responding with 412 if the resource has changed since the client read it. Requests
+     * without the header are unconditional, unless the `REQUIRE_IF_MATCH` env variable is set to `true`.
+     *
+     * @returns Whether the request can proceed.
+     */
+    protected checkIfMatch<A, B, C, D>(request: Request<A, B, C, D>, response: Response, ...versions: string[]): boolean {
+        const ifMatch = request.headers["if-match"];
+
+        if (typeof ifMatch === "undefined") {
+            if (process.env.REQUIRE_IF_MATCH === "true") {
+                this.sendError(response, HTTPStatus.PRECONDITION_REQUIRED, "If-Match header is required.");
+                return false;
+            }
+
+            return true;
+        }
+
+        const etag = getETag(versions);
+        // weak tags never match, If-Match requires strong comparison
+        const matches = ifMatch.split(",").some(tag => tag.trim() === "*" || tag.trim() === etag);
+
+        if (!matches) {
+            this.sendModifiedSinceRead(response);
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Whether the request passed {@link Endpoint.checkIfMatch} through the `If-Match` header. Writes made by such
+     * requests must be conditional on the versions that were checked, responding with
+     * {@link Endpoint.sendModifiedSinceRead} when no rows are affected, so concurrent requests carrying the same ETag
+     * can't overwrite each other.
+     */
+    protected isConditional<A, B, C, D>(request: Request<A, B, C, D>): boolean {
+        return typeof request.headers["if-match"] !== "undefined";
+    }
+
+    protected sendModifiedSinceRead(response: Response): void {
+        this.sendError(response, HTTPStatus.PRECONDITION_FAILED, "Resource has been modified since it was read.");
+    }
+
+    /**
+     * Returns the token the request was authenticated with, which is only resolved in routes requiring permissions.
+     */
     protected getToken<A, B, C, D>(request: Request<A, B, C, D>): Token | null {
-        const bearerToken = request.headers.authorization ?? "";
+        return requestTokens.get(request) ?? null;
+    }
+
+    protected getSessionMetadata<A, B, C, D>(request: Request<A, B, C, D>): SessionMetadata {
+        return {
+            userAgent: request.headers["user-agent"],
+            ip: request.ip,
+        };
+    }
+
+    /**
+     * Sends the page of the query's results requested through the `page`, `limit`, `sort` and filter query parameters.
+     * The total amount of results and the links to the other pages are sent in the `X-Total-Count` and `Link` headers.
+     * Only available in routes with the `list` option.
+     *
+     * If the client requested CSV in a route with the `csv` option, every result is streamed as a CSV file instead,
+     * ignoring `page` and `limit`.
+     */
+    protected async sendPage<O>(
+        request: Request<any, any, any, any>,
+        response: Response<O[]>,
+        query: SelectQueryBuilder<any, any, O>
+    ): Promise<void> {
+        const listQuery = requestListQueries.get(request);
+
+        if (!listQuery) {
+            throw new Error(`Route ${request.method} ${request.path} does not have the list option.`);
+        }
+
+        const { page, limit, sort, filters } = listQuery;
 
-        if (!/^Bearer [A-Za-z0-9_-]{86}$/.test(bearerToken)) {
-            return null;
+        for (const { column, values } of filters) {
+            query = query.where(sql.ref(column), "in", values);
         }
 
-        const token = bearerToken.slice(7);
-        const tokenData = getTokenData(token);
-        return tokenData ?? null;
+        const csvExport = requestCsvExports.get(request);
+
+        if (csvExport) {
+            for (const [column, direction] of sort) {
+                query = query.orderBy(sql.ref(column), direction);
+            }
+
+            await streamCsv(response, query, csvExport);
+            return;
+        }
+
+        const { total } = await query
+            .clearSelect()
+            .select(sql<string>`count(*)`.as("total"))
+            .executeTakeFirstOrThrow();
+
+        for (const [column, direction] of sort) {
+            query = query.orderBy(sql.ref(column), direction);
+        }
+
+        const results = await query
+            .limit(limit)
+            .offset((page - 1) * limit)
+            .execute();
+
+        response.setHeader("X-Total-Count", total);
+        response.append("Link", getPageLinks(request, page, Math.max(Math.ceil(+total / limit), 1)));
+        response.status(HTTPStatus.OK).send(await this.selectFields(request, results) as O[]);
+    }
+
+    /**
+     * Embeds the relations requested through the `include` query parameter into each result, and then keeps only the
+     * fields requested through `fields`, plus the embedded relations. Already applied by {@link Endpoint.sendPage} and
+     * {@link Endpoint.sendResource}. Results are returned as is in routes without the `fields` option.
+     */
+    protected async selectFields<T>(request: Request<any, any, any, any>, results: T[]): Promise<Array<Partial<T>>> {
+        const selection = requestFieldSelections.get(request);
+
+        if (!selection) {
+            return results;
+        }
+
+        const { fields, include } = selection;
+        const rows = results.map(result => ({ ...result }) as Record<string, unknown>);
+
+        await Promise.all(include.map(async ([name, { key, load }]) => {
+            const keys = rows.map(row => row[key]).filter(value => value !== null && typeof value !== "undefined");
+            const related = await load([...new Set(keys.map(String))]);
+
+            for (const row of rows) {
+                row[name] = related.get(String(row[key])) ?? null;
+            }
+        }));
+
+        if (!fields) {
+            return rows as Array<Partial<T>>;
+        }
+
+        const selected = new Set([...fields, ...include.map(([name]) => name)]);
+
+        return rows.map(row => Object.fromEntries(
+            Object.entries(row).filter(([field]) => selected.has(field))
+        )) as Array<Partial<T>>;
     }
 }
 
@@ -89,6 +286,255 @@ export const methodDecoratorNames = [
     DeleteMethod.name,
 ] as const;
 
+/**
+ * Declares the resource of a route as owned by the user of the given type whose rut is in the specified path parameter.
+ */
+export function ownedBy(type: TokenType, param = "rut"): OwnerResolver {
+    const resolver: OwnerResolver = request => ({
+        rut: request.params[param],
+        type,
+    });
+
+    return Object.assign(resolver, { ownerType: type });
+}
+
+/**
+ * Returns every route declared through a method decorator by the endpoint, including the ones inherited from other
+ * endpoints, in declaration order. A method overriding an inherited route takes its place, and removes it if it's not
+ * decorated.
+ */
+export function getEndpointRoutes(endpoint: Endpoint): EndpointRoute[] {
+    const members = new Map<string, any>();
+    const prototypes: any[] = [];
+    const routes: EndpointRoute[] = [];
+
+    for (
+        let prototype = Object.getPrototypeOf(endpoint);
+        prototype !== Endpoint.prototype;
+        prototype = Object.getPrototypeOf(prototype)
+    ) {
+        prototypes.unshift(prototype);
+    }
+
+    // overridden members keep the position of the inherited ones
+    for (const prototype of prototypes) {
+        for (const key of Object.getOwnPropertyNames(prototype)) {
+            members.set(key, prototype[key]);
+        }
+    }
+
+    for (const member of members.values()) {
+        if (typeof member !== "function" || member.prototype instanceof Endpoint) {
+            continue;
+        }
+
+        const decoratorName = methodDecoratorNames.find(name => name in member);
+
+        if (!decoratorName) continue;
+
+        const {
+            method,
+            path,
+            permissions,
+            ownerType,
+            list,
+            fields,
+            csv,
+            idempotent,
+            rateLimit,
+            deprecated,
+            schema,
+        }: RouteMetadata = member[decoratorName];
+
+        routes.push({
+            method,
+            path: endpoint.path + path,
+            permissions: permissions ?? [],
+            ...typeof ownerType !== "undefined" && { ownerType },
+            ...list && { list },
+            ...fields && { fields },
+            ...csv && { csv },
+            ...idempotent && { idempotent },
+            ...rateLimit && { rateLimit },
+            ...deprecated && { deprecated },
+            ...schema && { schema },
+            handler: member.bind(endpoint),
+        });
+    }
+
+    return routes;
+}
+
+/**
+ * Reference to a schema defined in the components of the OpenAPI documentation.
+ */
+export function schemaRef(name: string): JsonSchema {
+    return { $ref: `#/components/schemas/${name}` };
+}
+
+export type EndpointRoute = {
+    method: Method;
+    /**
+     * Includes the path of the endpoint.
+     */
+    path: string;
+    permissions: Permission[];
+    /**
+     * Account type of the owners of the route's resources, if it declares any.
+     */
+    ownerType?: TokenType;
+    list?: ListOptions;
+    fields?: FieldsOptions;
+    csv?: CsvOptions;
+    idempotent?: boolean;
+    rateLimit?: RateLimitOptions;
+    deprecated?: DeprecationOptions;
+    schema?: RouteSchema;
+    handler: EndpointMethod;
+};
+
+/**
+ * OpenAPI documentation of a route. Its security requirements, and the responses for missing or insufficient
+ * credentials, are derived from the permissions of the route.
+ */
+export type RouteSchema = {
+    tags: string[];
+    summary: string;
+    description?: string;
+    /**
+     * Every path parameter must be documented.
+     */
+    params?: Record<string, ParameterSchema>;
+    query?: Record<string, ParameterSchema>;
+    /**
+     * Request headers, like the ones used for conditional requests.
+     */
+    headers?: Record<string, ParameterSchema>;
+    body?: RequestBodySchema;
+    /**
+     * A string is shorthand for a response with only a description, plus an `Error` body if it's an error status.
+     */
+    responses: Partial<Record<HTTPStatus, string | ResponseSchema>>;
+};
+
+export type ParameterSchema = {
+    description?: string;
+    /**
+     * Query parameters and headers are optional by default.
+     */
+    required?: boolean;
+    schema: JsonSchema;
+};
+
+export type RequestBodySchema = {
+    description?: string;
+    schema: JsonSchema;
+};
+
+export type ResponseSchema = {
+    description: string;
+    schema?: JsonSchema;
+    headers?: Record<string, ParameterSchema>;
+};
+
+export type JsonSchema = Record<string, unknown>;
+
+export type ListOptions = {
+    /**
+     * Fields that can be sorted by, mapped to the column or selected alias to sort by.
+     */
+    sort: Record<string, string>;
+    /**
+     * Used when the request doesn't specify one. Fields prefixed with `-` are sorted in descending order.
+     */
+    defaultSort: string[];
+    /**
+     * Query parameters that filter the results, mapped to the column they must match. Multiple values can be separated
+     * by commas, matching any of them.
+     */
+    filters?: Record<string, ListFilter>;
+};
+
+export type ListFilter = {
+    column: string;
+    type: "string" | "number" | "boolean" | "date";
+};
+
+export type FieldsOptions = {
+    /**
+     * Fields of the results that can be requested through the `fields` query parameter. Every field is sent if the
+     * request doesn't specify any.
+     */
+    select: string[];
+    /**
+     * Related resources that can be embedded in each result through the `include` query parameter.
+     */
+    include?: Record<string, Relation>;
+};
+
+export type Relation = {
+    /**
+     * Field of the results identifying the related resource, which doesn't need to be selectable.
+     */
+    key: string;
+    /**
+     * Loads the related resources of every result at once, mapped by key. Results whose key is missing get `null`.
+     */
+    load: (keys: string[]) => Promise<Map<string, unknown>>;
+    /**
+     * Used to document the embedded resource.
+     */
+    schema: JsonSchema;
+};
+
+export type CsvOptions = {
+    /**
+     * Name of the downloaded file, without the extension.
+     */
+    filename: string;
+    /**
+     * Columns of the file in order, mapping each header to the field of the results it's read from. If the route also
+     * has the `fields` option, only the columns of the fields requested through `fields` are sent.
+     */
+    columns: Record<string, string>;
+};
+
+export type RateLimitOptions = {
+    /**
+     * Duration of the window, in seconds.
+     */
+    window: number;
+    /**
+     * Requests allowed per window.
+     */
+    max: number;
+    /**
+     * Whether requests are counted per IP address or per authenticated user, `ip` by default. Routes limited per user
+     * must require permissions.
+     */
+    keyBy?: "ip" | "rut";
+};
+
+export type DeprecationOptions = {
+    /**
+     * When the route was deprecated, as a date or date-time. Sent in the `Deprecation` header.
+     */
+    since: string;
+    /**
+     * When the route will stop being available, as a date or date-time. Sent in the `Sunset` header.
+     */
+    sunset?: string;
+    /**
+     * Documentation of the replacement or the migration, sent in the `Link` header with the `deprecation` relation.
+     */
+    link?: string;
+};
+
+export type ResourceOwner = {
+    rut: string;
+    type: TokenType;
+};
+
 // noinspection JSUnusedGlobalSymbols
 export enum Method {
     GET = "GET",
@@ -521,6 +967,344 @@ class DecoratorContextError extends Error {
     }
 }
 
+/**
+ * Resolves either the `X-API-Key` header or the `Bearer` token in the `Authorization` header, in that order.
+ */
+async function resolveToken(request: Request): Promise<Token | null> {
+    const apiKey = request.headers["x-api-key"];
+
+    if (typeof apiKey === "string") {
+        const apiKeyData = await getApiKeyData(apiKey);
+        return apiKeyData ?? null;
+    }
+
+    const token = getBearerToken(request);
+
+    if (!token) {
+        return null;
+    }
+
+    const tokenData = await getTokenData(token);
+    return tokenData ?? null;
+}
+
+function getBearerToken<A, B, C, D>(request: Request<A, B, C, D>): string | null {
+    const bearerToken = request.headers.authorization ?? "";
+
+    if (!/^Bearer [A-Za-z0-9_-]{86}$/.test(bearerToken)) {
+        return null;
+    }
+
+    return bearerToken.slice(7);
+}
+
+async function isAuthorized(
+    token: Token,
+    request: Request,
+    permissions: Permission[],
+    owner?: OwnerResolver
+): Promise<boolean> {
+    const granted = getTokenPermissions(token);
+    const grantedPermissions = permissions.filter(permission => granted.has(permission));
+
+    if (grantedPermissions.some(permission => permission.endsWith(":any"))) {
+        return true;
+    }
+
+    if (grantedPermissions.length === 0) {
+        return false;
+    }
+
+    // only own scoped permissions are left
+    const resourceOwner = await owner!(request);
+
+    return resourceOwner?.rut === token.rut && resourceOwner.type === token.type;
+}
+
+function getETag(versions: string[]): string {
+    return `"${createHash("sha1").update(versions.join(",")).digest("base64url")}"`;
+}
+
+function parseListQuery(query: Request["query"], options: ListOptions): ListQueryResult {
+    const { sort: sortColumns, defaultSort, filters = {} } = options;
+
+    const page = typeof query.page === "undefined" ? 1 : parseInteger(query.page);
+
+    if (page === null || page < 1) {
+        return {
+            ok: false,
+            message: "Invalid page.",
+        };
+    }
+
+    const limit = typeof query.limit === "undefined" ? defaultPageSize : parseInteger(query.limit);
+
+    if (limit === null || limit < 1 || limit > maxPageSize) {
+        return {
+            ok: false,
+            message: `Invalid limit, must be between 1 and ${maxPageSize}.`,
+        };
+    }
+
+    const sortFields = typeof query.sort === "undefined" ? defaultSort : toList(query.sort);
+
+    if (sortFields === null) {
+        return {
+            ok: false,
+            message: "Invalid sort.",
+        };
+    }
+
+    const sort: ListQuery["sort"] = [];
+
+    for (const field of sortFields) {
+        const name = field.replace(/^-/, "");
+
+        if (!Object.hasOwn(sortColumns, name)) {
+            return {
+                ok: false,
+                message: `Cannot sort by ${name || "an empty field"}.`,
+            };
+        }
+
+        sort.push([sortColumns[name], field.startsWith("-") ? "desc" : "asc"]);
+    }
+
+    const parsedFilters: ListQuery["filters"] = [];
+
+    for (const [name, { column, type }] of Object.entries(filters)) {
+        if (typeof query[name] === "undefined") continue;
+
+        const values = toList(query[name])?.map(value => parseFilterValue(value, type)) ?? [];
+
+        if (values.length === 0 || values.some(value => value === null)) {
+            return {
+                ok: false,
+                message: `Invalid ${name}.`,
+            };
+        }
+
+        parsedFilters.push({ column, values: values as Array<string | number | boolean> });
+    }
+
+    return {
+        ok: true,
+        value: {
+            page,
+            limit,
+            sort,
+            filters: parsedFilters,
+        },
+    };
+}
+
+function parseFieldSelection(query: Request["query"], options: FieldsOptions): FieldSelectionResult {
+    const { select, include: relations = {} } = options;
+    let fields: string[] | null = null;
+
+    if (typeof query.fields !== "undefined") {
+        fields = toList(query.fields);
+
+        if (fields === null) {
+            return {
+                ok: false,
+                message: "Invalid fields.",
+            };
+        }
+
+        for (const field of fields) {
+            if (!select.includes(field)) {
+                return {
+                    ok: false,
+                    message: field ? `Cannot select field ${field}.` : "Fields cannot be empty.",
+                };
+            }
+        }
+    }
+
+    const include: FieldSelection["include"] = [];
+
+    if (typeof query.include !== "undefined") {
+        const names = toList(query.include);
+
+        if (names === null) {
+            return {
+                ok: false,
+                message: "Invalid include.",
+            };
+        }
+
+        for (const name of new Set(names)) {
+            if (!Object.hasOwn(relations, name)) {
+                return {
+                    ok: false,
+                    message: name ? `Cannot include ${name}.` : "Included relations cannot be empty.",
+                };
+            }
+
+            include.push([name, relations[name]]);
+        }
+    }
+
+    return {
+        ok: true,
+        value: {
+            fields,
+            include,
+        },
+    };
+}
+
+/**
+ * Lists may be sent either as comma separated values or as repeated parameters.
+ */
+function toList(value: unknown): string[] | null {
+    const values = Array.isArray(value) ? value : [value];
+
+    if (!values.every(v => typeof v === "string")) {
+        return null;
+    }
+
+    return values.flatMap(v => v.split(","));
+}
+
+function parseInteger(value: unknown): number | null {
+    return typeof value === "string" && /^\d{1,9}$/.test(value) ? +value : null;
+}
+
+function parseFilterValue(value: string, type: ListFilter["type"]): string | number | boolean | null {
+    switch (type) {
+        case "string":
+            return value.length > 0 ? value : null;
+        case "number":
+            return value.length > 0 && isFinite(+value) ? +value : null;
+        case "boolean":
+            return value === "true" ? true : value === "false" ? false : null;
+        case "date":
+            return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)) ? value : null;
+    }
+}
+
+function getPageLinks<A, B, C, D>(request: Request<A, B, C, D>, page: number, lastPage: number): string {
+    const url = new URL(request.originalUrl, "http://localhost");
+    const links: Record<string, number> = {
+        first: 1,
+    };
+
+    if (page > 1) {
+        links.prev = Math.min(page - 1, lastPage);
+    }
+
+    if (page < lastPage) {
+        links.next = page + 1;
+    }
+
+    links.last = lastPage;
+
+    return Object.entries(links).map(([rel, linkPage]) => {
+        url.searchParams.set("page", `${linkPage}`);
+        return `<${url.pathname}${url.search}>; rel="${rel}"`;
+    }).join(", ");
+}
+
+/**
+ * JSON is sent unless CSV is requested through the `format` query parameter or the `Accept` header, the former taking
+ * precedence.
+ *
+ * @returns `null` if the requested format is not supported.
+ */
+function getResponseFormat(request: Request): "json" | "csv" | null {
+    const { format } = request.query;
+
+    if (typeof format !== "undefined") {
+        return format === "json" || format === "csv" ? format : null;
+    }
+
+    return request.accepts(["application/json", "text/csv"]) === "text/csv" ? "csv" : "json";
+}
+
+/**
+ * Writes the rows as they're read from the database, waiting for the client whenever the response buffer is full. Stops
+ * reading if the client disconnects, and destroys the response if the query fails midway, since the status has already
+ * been sent.
+ */
+async function streamCsv<O>(
+    response: Response,
+    query: SelectQueryBuilder<any, any, O>,
+    { filename, columns }: CsvExport
+): Promise<void> {
+    response.status(HTTPStatus.OK);
+    response.setHeader("Content-Type", "text/csv; charset=utf-8");
+    response.setHeader("Content-Disposition", `attachment; filename="${filename}.csv"`);
+    // the BOM makes spreadsheet programs read the file as UTF-8
+    response.write(`\uFEFF${toCsvRow(columns.map(([header]) => header))}`);
+
+    try {
+        for await (const row of query.stream()) {
+            const fields = row as Record<string, unknown>;
+
+            if (!response.write(toCsvRow(columns.map(([, field]) => fields[field])))) {
+                await waitForDrain(response);
+            }
+
+            if (response.destroyed) break;
+        }
+    } catch (error) {
+        response.destroy();
+        throw error;
+    }
+
+    response.end();
+}
+
+/**
+ * Values are quoted when needed as specified by RFC 4180. Strings that spreadsheet programs would evaluate as formulas
+ * are prefixed with `'`.
+ */
+function toCsvRow(values: unknown[]): string {
+    return values.map(value => {
+        if (value === null || typeof value === "undefined") {
+            return "";
+        }
+
+        let text = typeof value === "object" ? JSON.stringify(value) : String(value);
+
+        if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+            text = `'${text}`;
+        }
+
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+    }).join(",") + "\r\n";
+}
+
+function waitForDrain(response: Response): Promise<void> {
+    return new Promise(resolve => {
+        const done = (): void => {
+            response.off("drain", done);
+            response.off("close", done);
+            resolve();
+        };
+
+        response.on("drain", done);
+        response.on("close", done);
+    });
+}
+
+/**
+ * Dates are sent in the formats required by RFC 9745 and RFC 8594 respectively.
+ */
+function setDeprecationHeaders(response: Response, { since, sunset, link }: DeprecationOptions): void {
+    response.setHeader("Deprecation", `@${Math.floor(Date.parse(since) / 1000)}`);
+
+    if (sunset) {
+        response.setHeader("Sunset", new Date(sunset).toUTCString());
+    }
+
+    if (link) {
+        response.append("Link", `<${link}>; rel="deprecation"`);
+    }
+}
+
 function makeMethodDecorator<T extends EndpointMethod>(
     name: string,
     method: Method,
@@ -545,43 +1329,298 @@ function makeMethodDecorator<T extends EndpointMethod>(
             }
         }
 
-        if (typeof options.requiresAuthorization !== "undefined") {
+        if (typeof options.deprecated !== "undefined") {
+            const { since, sunset } = options.deprecated;
+
+            for (const date of [since, sunset]) {
+                if (typeof date !== "undefined" && Number.isNaN(Date.parse(date))) {
+                    throw new DecoratorContextError(`Invalid deprecation date ${date}.`, ...decoratorErrorArgs);
+                }
+            }
+        }
+
+        if (typeof options.list !== "undefined") {
+            const { list } = options;
+
+            for (const field of list.defaultSort) {
+                if (!Object.hasOwn(list.sort, field.replace(/^-/, ""))) {
+                    throw new DecoratorContextError(
+                        `Default sort field ${field} is not sortable.`, ...decoratorErrorArgs
+                    );
+                }
+            }
+
+            const oldValue = descriptor.value;
+
+            descriptor.value = (async function (this: Endpoint, request: Request, response: Response): Promise<void> {
+                const listQuery = parseListQuery(request.query, list);
+
+                if (!listQuery.ok) {
+                    this.sendError(response, HTTPStatus.BAD_REQUEST, listQuery.message);
+                    return;
+                }
+
+                requestListQueries.set(request, listQuery.value);
+
+                await oldValue.apply(this, [request, response]);
+            }) as T;
+        }
+
+        if (typeof options.csv !== "undefined") {
+            const { csv } = options;
+
+            if (typeof options.list === "undefined") {
+                throw new DecoratorContextError("CSV exports require the list option.", ...decoratorErrorArgs);
+            }
+
+            for (const field of Object.values(csv.columns)) {
+                if (options.fields && !options.fields.select.includes(field)) {
+                    throw new DecoratorContextError(
+                        `CSV column field ${field} is not selectable.`, ...decoratorErrorArgs
+                    );
+                }
+            }
+
+            const oldValue = descriptor.value;
+
+            descriptor.value = (async function (this: Endpoint, request: Request, response: Response): Promise<void> {
+                const format = getResponseFormat(request);
+
+                response.vary("Accept");
+
+                if (!format) {
+                    this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid format.");
+                    return;
+                }
+
+                if (format === "csv") {
+                    const selection = requestFieldSelections.get(request);
+
+                    if (selection && selection.include.length > 0) {
+                        this.sendError(response, HTTPStatus.BAD_REQUEST, "Relations cannot be included in CSV exports.");
+                        return;
+                    }
+
+                    requestCsvExports.set(request, {
+                        filename: csv.filename,
+                        columns: Object.entries(csv.columns)
+                            .filter(([, field]) => !selection?.fields || selection.fields.includes(field)),
+                    });
+                }
+
+                await oldValue.apply(this, [request, response]);
+            }) as T;
+        }
+
+        if (typeof options.fields !== "undefined") {
+            const { fields } = options;
+
+            for (const name of Object.keys(fields.include ?? {})) {
+                if (fields.select.includes(name)) {
+                    throw new DecoratorContextError(
+                        `Relation ${name} has the same name as a field.`, ...decoratorErrorArgs
+                    );
+                }
+            }
+
+            const oldValue = descriptor.value;
+
+            descriptor.value = (async function (this: Endpoint, request: Request, response: Response): Promise<void> {
+                const selection = parseFieldSelection(request.query, fields);
+
+                if (!selection.ok) {
+                    this.sendError(response, HTTPStatus.BAD_REQUEST, selection.message);
+                    return;
+                }
+
+                requestFieldSelections.set(request, selection.value);
+
+                await oldValue.apply(this, [request, response]);
+            }) as T;
+        }
+
+        if (typeof options.idempotent !== "undefined" && method !== Method.POST) {
+            throw new DecoratorContextError("Only POST routes can be idempotent.", ...decoratorErrorArgs);
+        }
+
+        if (method === Method.POST && options.idempotent !== false) {
+            const oldValue = descriptor.value;
+
+            descriptor.value = (async function (this: Endpoint, request: Request, response: Response): Promise<void> {
+                const key = request.headers["idempotency-key"];
+
+                if (typeof key === "undefined") {
+                    await oldValue.apply(this, [request, response]);
+                    return;
+                }
+
+                if (typeof key !== "string" || !idempotencyKeyRegex.test(key)) {
+                    this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid Idempotency-Key header.");
+                    return;
+                }
+
+                // the token has already been resolved by the permissions wrapper
+                const token = requestTokens.get(request);
+                const client = token ? `${token.type}:${token.rut}` : `ip:${request.ip ?? "unknown"}`;
+                const fingerprint = getRequestFingerprint(request.method, request.originalUrl, request.body);
+                const idempotentRequest = await startIdempotentRequest(client, key, fingerprint);
+
+                switch (idempotentRequest.type) {
+                    case "mismatch":
+                        this.sendError(
+                            response,
+                            HTTPStatus.UNPROCESSABLE_CONTENT,
+                            "Idempotency-Key has already been used for a different request."
+                        );
+                        return;
+                    case "in-progress":
+                        this.sendError(
+                            response,
+                            HTTPStatus.CONFLICT,
+                            "A request with the same Idempotency-Key is still being processed."
+                        );
+                        return;
+                    case "replay":
+                        response.setHeader("Idempotent-Replayed", "true");
+                        response.status(idempotentRequest.status).send(idempotentRequest.body);
+                        return;
+                }
+
+                const { id } = idempotentRequest;
+                const { send } = response;
+                let stored: Promise<void> | undefined;
+
+                // stored as soon as it's sent, since handlers may keep going afterwards, e.g. to send emails
+                response.send = function (body): Response {
+                    // express calls send again with the serialized body
+                    response.send = send;
+                    stored = response.statusCode < HTTPStatus.INTERNAL_SERVER_ERROR
+                        ? completeIdempotentRequest(id, response.statusCode, body)
+                        : discardIdempotentRequest(id);
+                    return send.call(this, body);
+                };
+
+                try {
+                    await oldValue.apply(this, [request, response]);
+                } finally {
+                    // errors are responded to by the outer wrapper, and can be retried
+                    await (stored ?? discardIdempotentRequest(id));
+                }
+            }) as T;
+        }
+
+        if (typeof options.rateLimit !== "undefined") {
+            const { window, max, keyBy = "ip" } = options.rateLimit;
+
+            if (!(window > 0 && max > 0)) {
+                throw new DecoratorContextError(
+                    "Rate limit window and max must be positive.", ...decoratorErrorArgs
+                );
+            }
+
+            if (keyBy === "rut" && typeof options.permissions === "undefined") {
+                throw new DecoratorContextError(
+                    "Routes rate limited per user must require permissions.", ...decoratorErrorArgs
+                );
+            }
+
+            const routeKey = `${target.constructor.name}.${propertyKey}`;
+            const oldValue = descriptor.value;
+
+            descriptor.value = (async function (this: Endpoint, request: Request, response: Response): Promise<void> {
+                // the token has already been resolved by the permissions wrapper
+                const token = requestTokens.get(request);
+                const client = keyBy === "rut" && token ? `${token.type}:${token.rut}` : request.ip ?? "unknown";
+                const { limited, remaining, reset } = await consumeRateLimit(`${routeKey}:${client}`, window, max);
+
+                response.setHeader("RateLimit-Limit", max);
+                response.setHeader("RateLimit-Remaining", remaining);
+                response.setHeader("RateLimit-Reset", reset);
+                response.setHeader("RateLimit-Policy", `${max};w=${window}`);
+
+                if (limited) {
+                    response.setHeader("Retry-After", reset);
+                    this.sendError(response, HTTPStatus.TOO_MANY_REQUESTS, "Too many requests, try again later.");
+                    return;
+                }
+
+                await oldValue.apply(this, [request, response]);
+            }) as T;
+        }
+
+        if (typeof options.permissions !== "undefined") {
+            const { permissions, owner } = options;
+
+            if (!owner && permissions.some(permission => permission.endsWith(":own"))) {
+                throw new DecoratorContextError(
+                    "Routes with own scoped permissions must declare an owner.", ...decoratorErrorArgs
+                );
+            }
+
             const oldValue = descriptor.value;
 
             descriptor.value = (async function (this: Endpoint, request: Request, response: Response): Promise<void> {
-                const token = this.getToken(request);
-
-                if (!token || (options.requiresAuthorization !== true && (
-                    Array.isArray(options.requiresAuthorization)
-                        ? !options.requiresAuthorization.includes(token.type)
-                        : token.type !== options.requiresAuthorization
-                ))) {
-                    this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid session token.");
+                const token = await resolveToken(request);
+
+                if (!token) {
+                    const bearerToken = getBearerToken(request);
+                    const message = "x-api-key" in request.headers
+                        ? "Invalid, revoked or expired API key."
+                        : bearerToken && await isTokenExpired(bearerToken)
+                            ? "Session token has expired."
+                            : "Invalid session token.";
+
+                    this.sendError(response, HTTPStatus.UNAUTHORIZED, message);
+                    return;
+                }
+
+                requestTokens.set(request, token);
+
+                recordImpersonatedRequest(token, request, response);
+
+                if (!await isAuthorized(token, request, permissions, owner)) {
+                    this.sendError(response, HTTPStatus.FORBIDDEN, "Insufficient permissions.");
                     return;
                 }
 
-                oldValue.apply(this, [request, response]);
+                await oldValue.apply(this, [request, response]);
             }) as T;
         }
 
         const oldValue = descriptor.value;
+        const { deprecated } = options;
 
         descriptor.value = (async function (this: Endpoint, request: Request, response: Response): Promise<void> {
             const method = request.method as Method;
 
-            logger.log(`${method} ${request.path}:`, {
+            logger.debug(`${method} ${request.path}:`, {
                 ...Object.keys(request.query).length > 0 && { query: request.query },
                 ...request.body && Object.keys(request.body).length > 0 && { body: request.body },
             });
 
+            if (deprecated) {
+                setDeprecationHeaders(response, deprecated);
+            }
+
             if (method === Method.POST && request.headers["content-type"] !== "application/json") {
                 this.sendError(response, HTTPStatus.BAD_REQUEST, "Content-Type header must be 'application/json'.");
                 return;
             }
 
             oldValue.call(this, request, response)?.catch?.(error => {
-                console.error(error);
-                this.sendStatus(response, HTTPStatus.INTERNAL_SERVER_ERROR);
+                const { status, message } = translateError(error);
+
+                if (status === HTTPStatus.INTERNAL_SERVER_ERROR) {
+                    logger.error(error);
+                }
+
+                // the error may have happened after responding, e.g. while sending emails
+                if (response.headersSent) {
+                    logger.warn(`Error after responding to ${method} ${request.path}: ${message}`);
+                    return;
+                }
+
+                this.sendError(response, status, message);
             });
         }) as T;
 
@@ -589,7 +1628,16 @@ function makeMethodDecorator<T extends EndpointMethod>(
             [name]: {
                 method,
                 path: options.path ?? "",
-            },
+                permissions: options.permissions,
+                ownerType: options.owner?.ownerType,
+                list: options.list,
+                fields: options.fields,
+                csv: options.csv,
+                idempotent: method === Method.POST && options.idempotent !== false,
+                rateLimit: options.rateLimit,
+                deprecated: options.deprecated,
+                schema: options.schema,
+            } satisfies RouteMetadata,
         });
     };
 }
@@ -601,7 +1649,108 @@ type EndpointMethod = (
 
 type MethodDecoratorOptions = {
     path?: string;
-    requiresAuthorization?: TokenType | TokenType[] | true;
+    /**
+     * The user must have at least one of these permissions. `own` scoped ones only grant access if the user also owns the
+     * resource, as resolved by {@link MethodDecoratorOptions.owner}.
+     */
+    permissions?: Permission[];
+    /**
+     * Required if any of the permissions is `own` scoped.
+     */
+    owner?: OwnerResolver;
+    /**
+     * Enables pagination, sorting and filtering of the results sent through {@link Endpoint.sendPage}.
+     */
+    list?: ListOptions;
+    /**
+     * Enables selecting fields and embedding relations in the results sent through {@link Endpoint.sendPage},
+     * {@link Endpoint.sendResource} or {@link Endpoint.selectFields}.
+     */
+    fields?: FieldsOptions;
+    /**
+     * Enables streaming every result as a CSV file through {@link Endpoint.sendPage}, if requested through the `format`
+     * query parameter or the `Accept` header. Requires the `list` option.
+     */
+    csv?: CsvOptions;
+    /**
+     * POST routes accept an `Idempotency-Key` header unless this is `false`. Retries with the same key get the original
+     * response instead of repeating the request. Must be disabled in routes whose responses contain credentials, since
+     * responses are stored.
+     */
+    idempotent?: boolean;
+    /**
+     * Responds with 429 once the client exceeds the amount of requests allowed per window. Checked after the permissions.
+     */
+    rateLimit?: RateLimitOptions;
+    /**
+     * Marks the route as deprecated, both in the documentation and through the `Deprecation`, `Sunset` and `Link`
+     * headers of every response.
+     */
+    deprecated?: DeprecationOptions;
+    /**
+     * Used to generate the OpenAPI documentation. Startup fails if a registered route doesn't have one.
+     */
+    schema?: RouteSchema;
+};
+
+type RouteMetadata = {
+    method: Method;
+    path: string;
+    permissions?: Permission[];
+    ownerType?: TokenType;
+    list?: ListOptions;
+    fields?: FieldsOptions;
+    csv?: CsvOptions;
+    idempotent?: boolean;
+    rateLimit?: RateLimitOptions;
+    deprecated?: DeprecationOptions;
+    schema?: RouteSchema;
+};
+
+type ListQuery = {
+    page: number;
+    limit: number;
+    sort: Array<[column: string, direction: "asc" | "desc"]>;
+    filters: Array<{
+        column: string;
+        values: Array<string | number | boolean>;
+    }>;
+};
+
+type FieldSelection = {
+    /**
+     * `null` if every field must be sent.
+     */
+    fields: string[] | null;
+    include: Array<[name: string, relation: Relation]>;
+};
+
+type FieldSelectionResult = {
+    ok: true;
+    value: FieldSelection;
+} | {
+    ok: false;
+    message: string;
+};
+
+type CsvExport = {
+    filename: string;
+    columns: Array<[header: string, field: string]>;
+};
+
+type ListQueryResult = {
+    ok: true;
+    value: ListQuery;
+} | {
+    ok: false;
+    message: string;
+};
+
+type OwnerResolver = ((request: Request) => ResourceOwner | null | Promise<ResourceOwner | null>) & {
+    /**
+     * Account type of the owners, if they're all of the same type.
+     */
+    ownerType?: TokenType;
 };
 
 type TypedDecorator<T> = (target: unknown, propertyKey: string, descriptor: TypedPropertyDescriptor<T>) => void;
@@ -1,2 +1,30 @@
+import { readdirSync } from "fs";
+import path from "path";
+
 export * from "./base";
-export * as v1Endpoints from "./v1";
+
+/**
+ * Loads the endpoints of every API version, each one being a `v<number>` directory next to this file, so adding a
+ * version only requires creating its directory.
+ *
+ * @returns The endpoints exported by each version, from oldest to newest.
+ */
+export async function loadApiVersions(): Promise<ApiVersion[]> {
+    const versions = readdirSync(__dirname, { withFileTypes: true })
+        .filter(entry => entry.isDirectory() && /^v\d+$/.test(entry.name))
+        .map(entry => entry.name)
+        .sort((a, b) => +a.slice(1) - +b.slice(1));
+
+    return Promise.all(versions.map(async (version) => ({
+        version,
+        endpoints: await import(path.join(__dirname, version)) as Record<string, unknown>,
+    })));
+}
+
+export type ApiVersion = {
+    /**
+     * Served under `/api/<version>`.
+     */
+    version: string;
+    endpoints: Record<string, unknown>;
+};
@@ -1,11 +1,51 @@
-import { createHash } from "crypto";
 import { Request, Response } from "express";
 import { sql } from "kysely";
-import { db, Employee, isValidEmail, isValidPhone, isValidRut } from "../../db";
-import { generateToken, revokeToken, TokenType } from "../../tokens";
+import { authenticate, clearFailedAttempts, completeChallenge } from "../../auth";
+import {
+    BigIntString,
+    db,
+    Employee,
+    hashPassword,
+    isValidPassword,
+    isValidRut,
+    verifyPassword,
+} from "../../db";
+import { sendEmail } from "../../email/sender";
+import { startImpersonation } from "../../impersonation";
+import {
+    getSessions,
+    revokeOtherTokens,
+    revokeSession,
+    revokeToken,
+    rotateToken,
+    SessionInfo,
+    TokenType,
+} from "../../tokens";
+import { getLoginHistory, LoginAttempt, LoginAttemptRow, parseDateRange, selectLoginHistory } from "../../loginHistory";
+import { consumePasswordResetCode, createPasswordResetCode, passwordResetCodeLifetime } from "../../passwordResets";
+import {
+    confirmTotpEnrollment,
+    disableTotp,
+    getTotpStatus,
+    setTotpRequired,
+    startTotpEnrollment,
+    TotpEnrollment,
+    TotpStatus,
+    verifySecondFactor,
+} from "../../totp";
 import { SnakeToCamelRecord } from "../../types";
-import { DeleteMethod, Endpoint, GetMethod, HTTPStatus, PatchMethod, PostMethod } from "../base";
-import { Validator } from "../validator";
+import {
+    DeleteMethod,
+    Endpoint,
+    GetMethod,
+    HTTPStatus,
+    ownedBy,
+    PatchMethod,
+    PostMethod,
+    PutMethod,
+    schemaRef,
+} from "../base";
+import { field, Validator } from "../validator";
 
 export class AdminsEndpoint extends Endpoint {
     private readonly adminUpdateValidator: Validator<AdminUpdate>;
@@ -14,87 +54,11 @@ export class AdminsEndpoint extends Endpoint {
         super("/admins");
 
         this.adminUpdateValidator = new Validator<AdminUpdate>({
-            firstName: (value, key) => {
-                if (typeof value === "undefined") {
-                    return {
-                        ok: true,
-                    };
-                }
-
-                const valid = !!value && typeof value === "string";
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            secondName: (value, key) => {
-                if (typeof value === "undefined") {
-                    return {
-                        ok: true,
-                    };
-                }
-
-                const valid = !value || typeof value === "string";
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            firstLastName: (value, key) => {
-                if (typeof value === "undefined") {
-                    return {
-                        ok: true,
-                    };
-                }
-
-                const valid = !!value && typeof value === "string";
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            secondLastName: (value, key) => {
-                if (typeof value === "undefined") {
-                    return {
-                        ok: true,
-                    };
-                }
-
-                const valid = !value || typeof value === "string";
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            email: async (value, key) => {
-                if (typeof value === "undefined") {
-                    return {
-                        ok: true,
-                    };
-                }
-
-                const valid = !!value && typeof value === "string" && isValidEmail(value);
-
-                if (!valid) {
-                    return {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                }
-
+            firstName: field.string({ min: 1 }).optional(),
+            secondName: field.string().orEmpty(),
+            firstLastName: field.string({ min: 1 }).optional(),
+            secondLastName: field.string().orEmpty(),
+            email: field.email().check(async (value, key) => {
                 const employee = await db
                     .selectFrom("employee")
                     .select("rut")
@@ -108,24 +72,8 @@ export class AdminsEndpoint extends Endpoint {
                     status: HTTPStatus.CONFLICT,
                     message: `An employee with ${key} ${value} already exists.`,
                 };
-            },
-            phone: async (value, key) => {
-                if (typeof value === "undefined") {
-                    return {
-                        ok: true,
-                    };
-                }
-
-                const valid = !!value && typeof value === "number" && isValidPhone(value);
-
-                if (!valid) {
-                    return {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                }
-
+            }).optional(),
+            phone: field.phone().check(async (value, key) => {
                 const employee = await db
                     .selectFrom("employee")
                     .select("rut")
@@ -139,47 +87,51 @@ export class AdminsEndpoint extends Endpoint {
                     status: HTTPStatus.CONFLICT,
                     message: `An employee with ${key} ${value} already exists.`,
                 };
-            },
-            birthDate: (value, key) => {
-                if (typeof value === "undefined") {
-                    return {
-                        ok: true,
-                    };
-                }
-
-                const valid = !!value
-                    && typeof value === "string"
-                    && /^\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[1-2][0-9]|3[0-1])$/.test(value);
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            gender: (value, key) => {
-                if (typeof value === "undefined") {
-                    return {
-                        ok: true,
-                    };
-                }
-
-                const valid = !!value && typeof value === "string";
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
+            }).optional(),
+            birthDate: field.date().optional(),
+            gender: field.string({ min: 1 }).optional(),
         });
     }
 
-    @GetMethod({ requiresAuthorization: [TokenType.MEDIC, TokenType.ADMIN] })
-    public async getAllAdmins(_request: Request, response: Response<Admin[]>): Promise<void> {
-        const admins = await db
+    @GetMethod({
+        permissions: ["admins:read:any"],
+        list: {
+            sort: {
+                rut: "rut",
+                fullName: "fullName",
+            },
+            defaultSort: ["fullName"],
+            filters: {
+                gender: { column: "gender", type: "string" },
+            },
+        },
+        fields: {
+            select: ["rut", "fullName", "email", "phone", "birthDate", "gender"],
+        },
+        csv: {
+            filename: "admins",
+            columns: {
+                "Rut": "rut",
+                "Full name": "fullName",
+                "Email": "email",
+                "Phone": "phone",
+                "Birth date": "birthDate",
+                "Gender": "gender",
+            },
+        },
+        schema: {
+            tags: ["Admins"],
+            summary: "Get a list of all admins.",
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved admins list.",
+                    schema: { type: "array", items: schemaRef("Employee") },
+                },
+            },
+        },
+    })
+    public async getAllAdmins(request: Request, response: Response<Admin[]>): Promise<void> {
+        const query = db
             .selectFrom("employee")
             .select(({ ref }) => [
                 "rut",
@@ -194,13 +146,95 @@ export class AdminsEndpoint extends Endpoint {
                 "birth_date as birthDate",
                 "gender",
             ])
-            .where("type", "=", "admin_staff")
-            .execute();
+            .where("type", "=", "admin_staff");
 
-        this.sendOk(response, admins);
+        await this.sendPage(request, response, query);
     }
 
-    @GetMethod({ path: "/:rut", requiresAuthorization: [TokenType.MEDIC, TokenType.ADMIN] })
+    // must be declared before /:rut, otherwise it would match it
+    @GetMethod({
+        path: "/login-history",
+        permissions: ["login-history:read:any"],
+        list: {
+            sort: {
+                id: "id",
+                createdAt: "created_at",
+            },
+            defaultSort: ["-createdAt", "-id"],
+            filters: {
+                type: { column: "type", type: "string" },
+                success: { column: "success", type: "boolean" },
+            },
+        },
+        schema: {
+            tags: ["Admins"],
+            summary: "Get the login attempts of every user, both successful and failed.",
+            query: {
+                rut: { description: "Only include attempts for this rut.", schema: schemaRef("Rut") },
+                from: {
+                    description: "Only include attempts made at or after this date.",
+                    schema: { type: "string", format: "date-time" },
+                },
+                to: {
+                    description: "Only include attempts made at or before this date.",
+                    schema: { type: "string", format: "date-time" },
+                },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved login history, most recent attempts first by default. Missing "
+                        + "failure reasons, IP addresses and user agents are sent as null.",
+                    schema: { type: "array", items: schemaRef("LoginAttempt") },
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, from or to.",
+            },
+        },
+    })
+    public async getAllLoginHistory(
+        request: Request<unknown, unknown, unknown, LoginHistoryQuery>,
+        response: Response<LoginAttemptRow[]>
+    ): Promise<void> {
+        const { rut, from, to } = request.query;
+
+        if (typeof rut !== "undefined" && (typeof rut !== "string" || !isValidRut(rut))) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const range = parseDateRange(from, to);
+
+        if (!range) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid from or to date.");
+            return;
+        }
+
+        const query = selectLoginHistory({
+            rut,
+            ...range,
+        });
+
+        await this.sendPage(request, response, query);
+    }
+
+    @GetMethod({
+        path: "/:rut",
+        permissions: ["admins:read:any"],
+        schema: {
+            tags: ["Admins"],
+            summary: "Get an admin by their rut.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved the admin's information.",
+                    schema: schemaRef("Employee"),
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut.",
+                [HTTPStatus.NOT_FOUND]: "Admin does not exist.",
+            },
+        },
+    })
     public async getAdmin(request: Request<{ rut: string }>, response: Response<Admin>): Promise<void> {
         const { rut } = request.params;
 
@@ -236,7 +270,26 @@ export class AdminsEndpoint extends Endpoint {
         this.sendOk(response, admin);
     }
 
-    @PatchMethod({ path: "/:rut", requiresAuthorization: TokenType.ADMIN })
+    @PatchMethod({
+        path: "/:rut",
+        permissions: ["admins:write:own"],
+        owner: ownedBy(TokenType.ADMIN),
+        schema: {
+            tags: ["Admins"],
+            summary: "Update an admin's data.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("EmployeeUpdate") },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Successfully updated admin.",
+                [HTTPStatus.NOT_MODIFIED]: "Admin was not modified.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut or admin data.",
+                [HTTPStatus.NOT_FOUND]: "Admin does not exist.",
+                [HTTPStatus.CONFLICT]: "Employee with that email or phone already exists.",
+            },
+        },
+    })
     public async updateMedic(request: Request<{ rut: string }, unknown, AdminUpdate>, response: Response): Promise<void> {
         const { rut } = request.params;
 
@@ -245,11 +298,6 @@ export class AdminsEndpoint extends Endpoint {
             return;
         }
 
-        if (this.getToken(request)!.rut !== rut) {
-            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid session token.");
-            return;
-        }
-
         const admin = await db
             .selectFrom("employee")
             .select("rut")
@@ -297,16 +345,48 @@ export class AdminsEndpoint extends Endpoint {
         this.sendStatus(response, HTTPStatus.NO_CONTENT);
     }
 
-    @PostMethod("/:rut/session")
-    public async createSession(
-        request: Request<{ rut: string }, unknown, { password?: string }>,
-        response: Response<{ token: string }>
+    @PutMethod({
+        path: "/:rut/password",
+        permissions: ["passwords:write:own"],
+        owner: ownedBy(TokenType.ADMIN),
+        schema: {
+            tags: ["Admins"],
+            summary: "Change the admin's password. Revokes every other session of the admin.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("PasswordUpdate") },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Password successfully changed.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, missing current password or new password does not follow the "
+                    + "password policy.",
+                [HTTPStatus.UNAUTHORIZED]: "Session token is missing or invalid, or incorrect current password.",
+                [HTTPStatus.NOT_FOUND]: "Admin does not exist.",
+            },
+        },
+    })
+    public async updatePassword(
+        request: Request<{ rut: string }, unknown, PasswordUpdate>,
+        response: Response
     ): Promise<void> {
         const { rut } = request.params;
-        const { password } = request.body;
 
-        if (!password) {
-            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain password.");
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const token = this.getToken(request)!;
+
+        const { currentPassword, newPassword } = request.body;
+
+        if (!currentPassword || typeof currentPassword !== "string") {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain currentPassword.");
+            return;
+        }
+
+        if (!newPassword || typeof newPassword !== "string" || !isValidPassword(newPassword)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid newPassword.");
             return;
         }
 
@@ -322,19 +402,663 @@ export class AdminsEndpoint extends Endpoint {
             return;
         }
 
-        const encryptedPassword = createHash("sha512").update(password + admin.salt).digest("base64url");
+        const { valid } = await verifyPassword(currentPassword, admin);
 
-        if (encryptedPassword !== admin.password) {
+        if (!valid) {
             this.sendError(response, HTTPStatus.UNAUTHORIZED, "Incorrect password.");
             return;
         }
 
-        const token = await generateToken(rut, TokenType.ADMIN);
+        if (currentPassword === newPassword) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "New password must be different from the current one.");
+            return;
+        }
+
+        await db
+            .updateTable("employee")
+            .set(await hashPassword(newPassword))
+            .where("rut", "=", rut)
+            .execute();
+
+        await revokeOtherTokens(rut, TokenType.ADMIN, token.token);
+
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
+
+    @PostMethod({
+        path: "/:rut/password-reset",
+        schema: {
+            tags: ["Admins"],
+            summary: "Send a single-use code to the admin's email, used to reset their password.",
+            description: "The response is the same whether the admin exists or not.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.ACCEPTED]: "Password reset requested. If the admin exists, the code has been sent to their "
+                    + "email.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut.",
+                [HTTPStatus.TOO_MANY_REQUESTS]: "Too many password reset codes have been requested recently.",
+            },
+        },
+    })
+    public async requestPasswordReset(request: Request<{ rut: string }>, response: Response): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const code = await createPasswordResetCode(rut, TokenType.ADMIN);
+
+        if (!code) {
+            this.sendError(response, HTTPStatus.TOO_MANY_REQUESTS, "Too many password reset requests, try again later.");
+            return;
+        }
+
+        const admin = await db
+            .selectFrom("employee")
+            .select("email")
+            .where("rut", "=", rut)
+            .where("type", "=", "admin_staff")
+            .executeTakeFirst();
+
+        // same response whether the admin exists or not, so it can't be used to find out registered ruts
+        this.sendStatus(response, HTTPStatus.ACCEPTED);
+
+        if (admin) {
+            await sendEmail(
+                admin.email,
+                "Restablecer contraseña",
+                `Tu código para restablecer tu contraseña es ${code}. Expira en ${passwordResetCodeLifetime} minutos.\n\n`
+                + "Si no solicitaste este cambio, puedes ignorar este mensaje."
+            );
+        }
+    }
+
+    @PostMethod({
+        path: "/:rut/password-reset/confirm",
+        schema: {
+            tags: ["Admins"],
+            summary: "Reset the admin's password using the code sent to their email. Revokes all of the admin's sessions.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("PasswordResetConfirmation") },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Password successfully reset.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, missing code, invalid or expired code, or new password does not "
+                    + "follow the password policy.",
+            },
+        },
+    })
+    public async confirmPasswordReset(
+        request: Request<{ rut: string }, unknown, PasswordResetConfirmation>,
+        response: Response
+    ): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const { code, newPassword } = request.body;
+
+        if (!code || typeof code !== "string") {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain code.");
+            return;
+        }
+
+        if (!newPassword || typeof newPassword !== "string" || !isValidPassword(newPassword)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid newPassword.");
+            return;
+        }
+
+        const valid = await consumePasswordResetCode(rut, TokenType.ADMIN, code);
+
+        if (!valid) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid or expired code.");
+            return;
+        }
+
+        const updateResult = await db
+            .updateTable("employee")
+            .set(await hashPassword(newPassword))
+            .where("rut", "=", rut)
+            .where("type", "=", "admin_staff")
+            .execute();
+
+        if (updateResult[0].numUpdatedRows === 0n) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid or expired code.");
+            return;
+        }
+
+        await revokeOtherTokens(rut, TokenType.ADMIN);
+        await clearFailedAttempts(rut, TokenType.ADMIN);
+
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
+
+    @DeleteMethod({
+        path: "/:rut/lockout",
+        permissions: ["lockouts:write:any"],
+        schema: {
+            tags: ["Admins"],
+            summary: "Unlock the admin's account, clearing their failed login attempts.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Account successfully unlocked.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut.",
+                [HTTPStatus.NOT_FOUND]: "The admin has no failed login attempts.",
+            },
+        },
+    })
+    public async unlockAdmin(request: Request<{ rut: string }>, response: Response): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const unlocked = await clearFailedAttempts(rut, TokenType.ADMIN);
+
+        if (!unlocked) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Admin ${rut} has no failed login attempts.`);
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
+
+    @PostMethod({
+        path: "/:rut/impersonate",
+        permissions: ["impersonations:write:own"],
+        owner: ownedBy(TokenType.ADMIN),
+        idempotent: false,
+        schema: {
+            tags: ["Admins"],
+            summary: "Generate a session token acting as the selected patient or medic, on behalf of the admin.",
+            description: "The session expires after 15 minutes by default, and can't change the impersonated user's "
+                + "password or two-factor authentication. Its start and end, along with every non-GET request made with "
+                + "it, are recorded.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("ImpersonationTarget") },
+            responses: {
+                [HTTPStatus.CREATED]: {
+                    description: "Impersonation session token successfully generated.",
+                    schema: schemaRef("SessionToken"),
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut or request body.",
+                [HTTPStatus.NOT_FOUND]: "The patient or medic to impersonate does not exist.",
+            },
+        },
+    })
+    public async impersonate(
+        request: Request<{ rut: string }, unknown, ImpersonationTarget>,
+        response: Response<{ token: string }>
+    ): Promise<void> {
+        const { rut } = request.params;
+        const { type, rut: targetRut } = request.body;
+
+        if (type !== "patient" && type !== "medic") {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid type, must be either patient or medic.");
+            return;
+        }
+
+        if (!targetRut || typeof targetRut !== "string" || !isValidRut(targetRut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const target = await db
+            .selectFrom(type)
+            .select("rut")
+            .where("rut", "=", targetRut)
+            .executeTakeFirst();
+
+        if (!target) {
+            const name = type === "patient" ? "Patient" : "Medic";
+            this.sendError(response, HTTPStatus.NOT_FOUND, `${name} ${targetRut} does not exist.`);
+            return;
+        }
+
+        const targetType = type === "patient" ? TokenType.PATIENT : TokenType.MEDIC;
+        const token = await startImpersonation(rut, targetRut, targetType, this.getSessionMetadata(request));
 
         this.sendStatus(response, HTTPStatus.CREATED, { token });
     }
 
-    @DeleteMethod({ path: "/:rut/session", requiresAuthorization: TokenType.ADMIN })
+    @GetMethod({
+        path: "/:rut/2fa",
+        permissions: ["two-factor:read:own", "two-factor:read:any"],
+        owner: ownedBy(TokenType.ADMIN),
+        schema: {
+            tags: ["Admins"],
+            summary: "Get the admin's two-factor authentication status.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "The admin's two-factor authentication status.",
+                    schema: schemaRef("TwoFactorStatus"),
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut.",
+                [HTTPStatus.NOT_FOUND]: "Admin does not exist.",
+            },
+        },
+    })
+    public async getTwoFactorStatus(request: Request<{ rut: string }>, response: Response<TotpStatus>): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const admin = await db
+            .selectFrom("employee")
+            .select("rut")
+            .where("rut", "=", rut)
+            .where("type", "=", "admin_staff")
+            .executeTakeFirst();
+
+        if (!admin) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Admin ${rut} does not exist.`);
+            return;
+        }
+
+        const status = await getTotpStatus(rut);
+
+        this.sendOk(response, status);
+    }
+
+    @PostMethod({
+        path: "/:rut/2fa",
+        permissions: ["two-factor:write:own"],
+        owner: ownedBy(TokenType.ADMIN),
+        idempotent: false,
+        schema: {
+            tags: ["Admins"],
+            summary: "Start enrolling the admin in two-factor authentication, replacing any enrollment in progress.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.CREATED]: {
+                    description: "New secret generated, must be confirmed through /admins/{rut}/2fa/verify.",
+                    schema: schemaRef("TwoFactorEnrollment"),
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut.",
+                [HTTPStatus.CONFLICT]: "Two-factor authentication is already enabled.",
+            },
+        },
+    })
+    public async enrollTwoFactor(request: Request<{ rut: string }>, response: Response<TotpEnrollment>): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const enrollment = await startTotpEnrollment(rut);
+
+        if (!enrollment) {
+            this.sendError(response, HTTPStatus.CONFLICT, "Two-factor authentication is already enabled.");
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.CREATED, enrollment);
+    }
+
+    @PostMethod({
+        path: "/:rut/2fa/verify",
+        permissions: ["two-factor:write:own"],
+        owner: ownedBy(TokenType.ADMIN),
+        idempotent: false,
+        schema: {
+            tags: ["Admins"],
+            summary: "Confirm the admin's two-factor enrollment, enabling it and generating new recovery codes.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("TwoFactorCode") },
+            responses: {
+                [HTTPStatus.CREATED]: {
+                    description: "Two-factor authentication successfully enabled.",
+                    schema: schemaRef("RecoveryCodes"),
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, missing or invalid code, or no enrollment in progress.",
+                [HTTPStatus.CONFLICT]: "Two-factor authentication is already enabled.",
+            },
+        },
+    })
+    public async verifyTwoFactor(
+        request: Request<{ rut: string }, unknown, TwoFactorCode>,
+        response: Response<{ recoveryCodes: string[] }>
+    ): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const { code } = request.body;
+
+        if (!code || typeof code !== "string") {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain code.");
+            return;
+        }
+
+        const status = await getTotpStatus(rut);
+
+        if (status.enabled) {
+            this.sendError(response, HTTPStatus.CONFLICT, "Two-factor authentication is already enabled.");
+            return;
+        }
+
+        const recoveryCodes = await confirmTotpEnrollment(rut, code);
+
+        if (!recoveryCodes) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid code, or no two-factor enrollment in progress.");
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.CREATED, { recoveryCodes });
+    }
+
+    @DeleteMethod({
+        path: "/:rut/2fa",
+        permissions: ["two-factor:write:own", "two-factor:write:any"],
+        owner: ownedBy(TokenType.ADMIN),
+        schema: {
+            tags: ["Admins"],
+            summary: "Disable two-factor authentication for the admin.",
+            description: "The admin must provide a TOTP or recovery code, and can't disable it if it's required for them. "
+                + "Admins can disable it for other employees without a code.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("TwoFactorCode") },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Two-factor authentication successfully disabled.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut.",
+                [HTTPStatus.UNAUTHORIZED]: "Session token is missing, invalid or has expired, or the code is invalid.",
+                [HTTPStatus.FORBIDDEN]: "The session token does not have the required permissions, or two-factor "
+                    + "authentication is required for this admin.",
+                [HTTPStatus.NOT_FOUND]: "Admin does not exist, or does not have two-factor authentication enabled.",
+            },
+        },
+    })
+    public async disableTwoFactor(
+        request: Request<{ rut: string }, unknown, TwoFactorCode>,
+        response: Response
+    ): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const admin = await db
+            .selectFrom("employee")
+            .select("rut")
+            .where("rut", "=", rut)
+            .where("type", "=", "admin_staff")
+            .executeTakeFirst();
+
+        if (!admin) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Admin ${rut} does not exist.`);
+            return;
+        }
+
+        // admins may disable it for other employees without a code, e.g. when they lose their device
+        if (this.getToken(request)!.rut === rut) {
+            const status = await getTotpStatus(rut);
+
+            if (status.required) {
+                this.sendError(response, HTTPStatus.FORBIDDEN, "Two-factor authentication is required for this account.");
+                return;
+            }
+
+            const { code } = request.body ?? {};
+
+            if (status.enabled && (typeof code !== "string" || !await verifySecondFactor(rut, code))) {
+                this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid two-factor code.");
+                return;
+            }
+        }
+
+        const disabled = await disableTotp(rut);
+
+        if (!disabled) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Admin ${rut} does not have two-factor authentication enabled.`);
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
+
+    @PutMethod({
+        path: "/:rut/2fa/required",
+        permissions: ["two-factor:enforce:any"],
+        schema: {
+            tags: ["Admins"],
+            summary: "Set whether the admin must use two-factor authentication. If not enrolled, they will be on their "
+                + "next login.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("TwoFactorRequirement") },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Requirement successfully updated.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, or invalid request body.",
+                [HTTPStatus.NOT_FOUND]: "Admin does not exist.",
+            },
+        },
+    })
+    public async setTwoFactorRequired(
+        request: Request<{ rut: string }, unknown, TwoFactorRequirement>,
+        response: Response
+    ): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const { required } = request.body;
+
+        if (typeof required !== "boolean") {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid required, must be a boolean.");
+            return;
+        }
+
+        const admin = await db
+            .selectFrom("employee")
+            .select("rut")
+            .where("rut", "=", rut)
+            .where("type", "=", "admin_staff")
+            .executeTakeFirst();
+
+        if (!admin) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Admin ${rut} does not exist.`);
+            return;
+        }
+
+        await setTotpRequired(rut, required);
+
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
+
+    @PostMethod({
+        path: "/:rut/session",
+        idempotent: false,
+        schema: {
+            tags: ["Admins"],
+            summary: "Generate a new session token for the selected admin.",
+            description: "If the admin has two-factor authentication enabled or required, a challenge is returned instead, "
+                + "which must be completed through /admins/{rut}/session/2fa.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+            },
+            body: { description: "The admin's password.", schema: schemaRef("Password") },
+            responses: {
+                [HTTPStatus.CREATED]: {
+                    description: "Session token successfully generated.",
+                    schema: schemaRef("SessionToken"),
+                },
+                [HTTPStatus.ACCEPTED]: {
+                    description: "Password is correct, but a two-factor challenge must be completed.",
+                    schema: schemaRef("TwoFactorChallenge"),
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, or password missing in request body.",
+                [HTTPStatus.UNAUTHORIZED]: "Invalid credentials. The admin does not exist or the password is incorrect.",
+                [HTTPStatus.LOCKED]: {
+                    description: "The admin's account is temporarily locked due to too many failed login attempts.",
+                    schema: schemaRef("Error"),
+                    headers: {
+                        "Retry-After": {
+                            description: "Seconds until the account gets unlocked.",
+                            schema: { type: "integer" },
+                        },
+                    },
+                },
+                [HTTPStatus.TOO_MANY_REQUESTS]: {
+                    description: "Too many failed login attempts, either for this admin or from this IP address.",
+                    schema: schemaRef("Error"),
+                    headers: {
+                        "Retry-After": {
+                            description: "Seconds until a new attempt can be made.",
+                            schema: { type: "integer" },
+                        },
+                    },
+                },
+            },
+        },
+    })
+    public async createSession(
+        request: Request<{ rut: string }, unknown, { password?: string }>,
+        response: Response<{ token: string } | TwoFactorChallenge>
+    ): Promise<void> {
+        const { rut } = request.params;
+        const { password } = request.body;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        if (!password) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain password.");
+            return;
+        }
+
+        const result = await authenticate(rut, TokenType.ADMIN, password, this.getSessionMetadata(request));
+
+        if (!result.ok) {
+            if (result.retryAfter) {
+                response.setHeader("Retry-After", result.retryAfter);
+            }
+
+            this.sendError(response, result.status, result.message);
+            return;
+        }
+
+        if ("challenge" in result) {
+            this.sendStatus(response, HTTPStatus.ACCEPTED, {
+                challenge: result.challenge,
+                ...result.setup && { setup: result.setup },
+            });
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.CREATED, { token: result.token });
+    }
+
+    @PostMethod({
+        path: "/:rut/session/2fa",
+        idempotent: false,
+        schema: {
+            tags: ["Admins"],
+            summary: "Complete a two-factor challenge, generating a new session token for the admin.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("TwoFactorChallengeCompletion") },
+            responses: {
+                [HTTPStatus.CREATED]: {
+                    description: "Session token successfully generated.",
+                    schema: schemaRef("TwoFactorSessionToken"),
+                },
+                [HTTPStatus.BAD_REQUEST]: "Challenge or code missing in request body.",
+                [HTTPStatus.UNAUTHORIZED]: "Invalid or expired challenge, or invalid code.",
+                [HTTPStatus.LOCKED]: "The admin's account is temporarily locked due to too many failed login attempts.",
+                [HTTPStatus.TOO_MANY_REQUESTS]: "Too many failed login attempts, either for this admin or from this IP "
+                    + "address.",
+            },
+        },
+    })
+    public async completeTwoFactorChallenge(
+        request: Request<{ rut: string }, unknown, ChallengeCompletion>,
+        response: Response<{ token: string; recoveryCodes?: string[] }>
+    ): Promise<void> {
+        const { rut } = request.params;
+        const { challenge, code } = request.body;
+
+        if (!challenge || typeof challenge !== "string") {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain challenge.");
+            return;
+        }
+
+        if (!code || typeof code !== "string") {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain code.");
+            return;
+        }
+
+        const result = await completeChallenge(rut, TokenType.ADMIN, challenge, code, this.getSessionMetadata(request));
+
+        if (!result.ok) {
+            if (result.retryAfter) {
+                response.setHeader("Retry-After", result.retryAfter);
+            }
+
+            this.sendError(response, result.status, result.message);
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.CREATED, {
+            token: result.token,
+            ...result.recoveryCodes && { recoveryCodes: result.recoveryCodes },
+        });
+    }
+
+    @DeleteMethod({
+        path: "/:rut/session",
+        permissions: ["sessions:write:own"],
+        owner: ownedBy(TokenType.ADMIN),
+        schema: {
+            tags: ["Admins"],
+            summary: "Revoke the admin's session token.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Token successfully revoked.",
+            },
+        },
+    })
     public async expireSession(request: Request, response: Response): Promise<void> {
         const { token } = this.getToken(request)!;
 
@@ -342,6 +1066,180 @@ export class AdminsEndpoint extends Endpoint {
 
         this.sendStatus(response, HTTPStatus.NO_CONTENT);
     }
+
+    @PostMethod({
+        path: "/:rut/session/refresh",
+        permissions: ["sessions:write:own"],
+        owner: ownedBy(TokenType.ADMIN),
+        idempotent: false,
+        schema: {
+            tags: ["Admins"],
+            summary: "Replace the admin's session token with a new one, resetting its expiration.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.CREATED]: {
+                    description: "Session token successfully rotated.",
+                    schema: schemaRef("SessionToken"),
+                },
+            },
+        },
+    })
+    public async refreshSession(request: Request<{ rut: string }>, response: Response<{ token: string }>): Promise<void> {
+        const oldToken = this.getToken(request)!;
+        const token = await rotateToken(oldToken.token);
+
+        if (!token) {
+            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Session token has expired.");
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.CREATED, { token });
+    }
+
+    @GetMethod({
+        path: "/:rut/sessions",
+        permissions: ["sessions:read:own"],
+        owner: ownedBy(TokenType.ADMIN),
+        schema: {
+            tags: ["Admins"],
+            summary: "Get a list of all of the admin's active sessions.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved the sessions list.",
+                    schema: { type: "array", items: schemaRef("Session") },
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut.",
+            },
+        },
+    })
+    public async getSessions(request: Request<{ rut: string }>, response: Response<Session[]>): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const token = this.getToken(request)!;
+
+        const sessions = await getSessions(rut, TokenType.ADMIN);
+
+        this.sendOk(response, sessions.map(session => ({
+            ...session,
+            current: session.id === token.id,
+        })));
+    }
+
+    @GetMethod({
+        path: "/:rut/login-history",
+        permissions: ["login-history:read:own", "login-history:read:any"],
+        owner: ownedBy(TokenType.ADMIN),
+        schema: {
+            tags: ["Admins"],
+            summary: "Get the admin's login attempts, both successful and failed.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+            },
+            query: {
+                from: {
+                    description: "Only include attempts made at or after this date.",
+                    schema: { type: "string", format: "date-time" },
+                },
+                to: {
+                    description: "Only include attempts made at or before this date.",
+                    schema: { type: "string", format: "date-time" },
+                },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved login history, most recent attempts first by default. Missing "
+                        + "failure reasons, IP addresses and user agents are sent as null.",
+                    schema: { type: "array", items: schemaRef("LoginAttempt") },
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, from or to.",
+            },
+        },
+    })
+    public async getLoginHistory(
+        request: Request<{ rut: string }, unknown, unknown, LoginHistoryQuery>,
+        response: Response<LoginAttempt[]>
+    ): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const range = parseDateRange(request.query.from, request.query.to);
+
+        if (!range) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid from or to date.");
+            return;
+        }
+
+        const history = await getLoginHistory({
+            rut,
+            type: TokenType.ADMIN,
+            ...range,
+        });
+
+        this.sendOk(response, history);
+    }
+
+    @DeleteMethod({
+        path: "/:rut/sessions/:id",
+        permissions: ["sessions:write:own"],
+        owner: ownedBy(TokenType.ADMIN),
+        schema: {
+            tags: ["Admins"],
+            summary: "Revoke one of the admin's sessions.",
+            params: {
+                rut: { description: "The admin's rut.", schema: schemaRef("Rut") },
+                id: { description: "The session's id.", schema: { type: "string" } },
+            },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Session successfully revoked.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut or session id.",
+                [HTTPStatus.NOT_FOUND]: "Session does not exist.",
+            },
+        },
+    })
+    public async deleteSession(request: Request<{ rut: string; id: string }>, response: Response): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const id = await new Promise<bigint | null>(resolve => {
+            try {
+                resolve(BigInt(request.params.id));
+            } catch (_) {
+                resolve(null);
+            }
+        });
+
+        if (!id || id <= 0n) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid session id.");
+            return;
+        }
+
+        const revoked = await revokeSession(id.toString() as BigIntString, rut, TokenType.ADMIN);
+
+        if (!revoked) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Session ${id} for admin ${rut} does not exist.`);
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
 }
 
 type Admin = {
@@ -358,5 +1256,48 @@ type AdminUpdate = Partial<SnakeToCamelRecord<Omit<Employee,
     | "type"
     | "password"
     | "salt"
-    | "session_token"
+    | "updated_at"
 >>>;
+
+type Session = SessionInfo & {
+    current: boolean;
+};
+
+type PasswordUpdate = {
+    currentPassword?: string;
+    newPassword?: string;
+};
+
+type PasswordResetConfirmation = {
+    code?: string;
+    newPassword?: string;
+};
+
+type ImpersonationTarget = {
+    type?: string;
+    rut?: string;
+};
+
+type TwoFactorCode = {
+    code?: string;
+};
+
+type TwoFactorRequirement = {
+    required?: boolean;
+};
+
+type TwoFactorChallenge = {
+    challenge: string;
+    setup?: TotpEnrollment;
+};
+
+type ChallengeCompletion = {
+    challenge?: string;
+    code?: string;
+};
+
+type LoginHistoryQuery = {
+    rut?: string;
+    from?: string;
+    to?: string;
+};
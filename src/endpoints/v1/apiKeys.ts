@@ -0,0 +1,139 @@
+import { Request, Response } from "express";
+import { ApiKeyInfo, createApiKey, getApiKeys, isApiKeyPermission, NewApiKeyInfo, revokeApiKey } from "../../apiKeys";
+import { BigIntString } from "../../db";
+import { isPermission, Permission } from "../../permissions";
+import { DeleteMethod, Endpoint, GetMethod, HTTPStatus, PostMethod, schemaRef } from "../base";
+
+export class ApiKeysEndpoint extends Endpoint {
+    public constructor() {
+        super("/api-keys");
+    }
+
+    @GetMethod({
+        permissions: ["api-keys:read:any"],
+        schema: {
+            tags: ["API Keys"],
+            summary: "Get a list of all API keys, including revoked ones.",
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved API keys list.",
+                    schema: { type: "array", items: schemaRef("ApiKey") },
+                },
+            },
+        },
+    })
+    public async getApiKeys(_request: Request, response: Response<ApiKeyInfo[]>): Promise<void> {
+        const apiKeys = await getApiKeys();
+
+        this.sendOk(response, apiKeys);
+    }
+
+    @PostMethod({
+        permissions: ["api-keys:write:any"],
+        idempotent: false,
+        schema: {
+            tags: ["API Keys"],
+            summary: "Create a new API key.",
+            body: { schema: schemaRef("NewApiKey") },
+            responses: {
+                [HTTPStatus.CREATED]: {
+                    description: "Successfully created API key. The key is only shown once.",
+                    schema: {
+                        type: "object",
+                        required: ["id", "key"],
+                        properties: { id: { type: "string" }, key: { type: "string" } },
+                    },
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed request body.",
+            },
+        },
+    })
+    public async createApiKey(
+        request: Request<unknown, unknown, NewApiKey>,
+        response: Response<NewApiKeyInfo>
+    ): Promise<void> {
+        const { name, permissions, expiresAt } = request.body;
+
+        if (!name || typeof name !== "string" || name.length > 64) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid name.");
+            return;
+        }
+
+        if (!Array.isArray(permissions) || permissions.length === 0) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain a non-empty permissions array.");
+            return;
+        }
+
+        for (const permission of permissions) {
+            if (typeof permission !== "string" || !isPermission(permission) || !isApiKeyPermission(permission)) {
+                this.sendError(response, HTTPStatus.BAD_REQUEST, `Invalid permission ${permission}.`);
+                return;
+            }
+        }
+
+        let expirationTime: number | null = null;
+
+        if (typeof expiresAt !== "undefined") {
+            expirationTime = typeof expiresAt === "string" ? Date.parse(expiresAt) : NaN;
+
+            if (isNaN(expirationTime) || expirationTime <= Date.now()) {
+                this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid expiresAt, must be a date in the future.");
+                return;
+            }
+        }
+
+        const token = this.getToken(request)!;
+        const apiKey = await createApiKey(name, [...new Set(permissions as Permission[])], token.rut, expirationTime);
+
+        this.sendStatus(response, HTTPStatus.CREATED, apiKey);
+    }
+
+    @DeleteMethod({
+        path: "/:id",
+        permissions: ["api-keys:write:any"],
+        schema: {
+            tags: ["API Keys"],
+            summary: "Revoke an API key.",
+            params: {
+                id: { description: "The API key's id.", schema: { type: "string" } },
+            },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Successfully revoked API key.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed id.",
+                [HTTPStatus.NOT_FOUND]: "API key does not exist or has already been revoked.",
+            },
+        },
+    })
+    public async revokeApiKey(request: Request<{ id: string }>, response: Response): Promise<void> {
+        const id = await new Promise<bigint | null>(resolve => {
+            try {
+                resolve(BigInt(request.params.id));
+            } catch (_) {
+                resolve(null);
+            }
+        });
+
+        if (!id || id <= 0n) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid API key id.");
+            return;
+        }
+
+        const revoked = await revokeApiKey(id.toString() as BigIntString);
+
+        if (!revoked) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `API key ${id} does not exist or has already been revoked.`);
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
+}
+
+type NewApiKey = {
+    name?: string;
+    permissions?: string[];
+    /**
+     * ISO 8601 date.
+     */
+    expiresAt?: string;
+};
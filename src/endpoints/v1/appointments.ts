@@ -1,17 +1,97 @@
 import { Request, Response } from "express";
 import { sql } from "kysely";
 import { BigIntString, db } from "../../db";
-import { TokenType } from "../../tokens";
-import { Endpoint, GetMethod } from "../base";
+import { loadMedics, loadMedicSpecialties, loadPatients } from "../../relations";
+import { Endpoint, GetMethod, HTTPStatus, schemaRef } from "../base";
 
 export class AppointmentsEndpoint extends Endpoint {
     public constructor() {
         super("/appointments");
     }
 
-    @GetMethod({ requiresAuthorization: TokenType.ADMIN })
-    public async getAllAppointments(_request: Request, response: Response<Appointment[]>): Promise<void> {
-        const appointments = await db
+    @GetMethod({
+        permissions: ["appointments:read:any"],
+        list: {
+            sort: {
+                date: "a.date",
+                start: "t.start",
+                medicRut: "m.rut",
+                patientRut: "a.patient_rut",
+            },
+            defaultSort: ["date", "start"],
+            filters: {
+                medicRut: { column: "m.rut", type: "string" },
+                patientRut: { column: "a.patient_rut", type: "string" },
+                date: { column: "a.date", type: "date" },
+                confirmed: { column: "a.confirmed", type: "boolean" },
+            },
+        },
+        fields: {
+            select: [
+                "id",
+                "medicRut",
+                "medicFullName",
+                "patientRut",
+                "patientFullName",
+                "patientBirthDate",
+                "patientEmail",
+                "patientPhone",
+                "date",
+                "slotId",
+                "start",
+                "end",
+                "description",
+                "confirmed",
+            ],
+            include: {
+                medic: { key: "medicRut", load: loadMedics, schema: schemaRef("Medic") },
+                patient: { key: "patientRut", load: loadPatients, schema: schemaRef("PatientContact") },
+                specialty: { key: "medicRut", load: loadMedicSpecialties, schema: schemaRef("Specialty") },
+            },
+        },
+        csv: {
+            filename: "appointments",
+            columns: {
+                "Id": "id",
+                "Date": "date",
+                "Start": "start",
+                "End": "end",
+                "Medic rut": "medicRut",
+                "Medic": "medicFullName",
+                "Patient rut": "patientRut",
+                "Patient": "patientFullName",
+                "Patient birth date": "patientBirthDate",
+                "Patient email": "patientEmail",
+                "Patient phone": "patientPhone",
+                "Description": "description",
+                "Confirmed": "confirmed",
+            },
+        },
+        schema: {
+            tags: ["Medics", "Appointments"],
+            summary: "Get a list of all of the future appointments.",
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved the appointments list.",
+                    schema: {
+                        type: "array",
+                        items: {
+                            allOf: [
+                                schemaRef("Appointment"),
+                                {
+                                    type: "object",
+                                    required: ["medicRut", "patientRut"],
+                                    properties: { medicRut: schemaRef("Rut"), patientRut: schemaRef("Rut") },
+                                },
+                            ],
+                        },
+                    },
+                },
+            },
+        },
+    })
+    public async getAllAppointments(request: Request, response: Response<Appointment[]>): Promise<void> {
+        const query = db
             .selectFrom("appointment as a")
             .innerJoin("time_slot as t", "t.id", "a.time_slot_id")
             .innerJoin("medic as m", "m.schedule_id", "t.schedule_id")
@@ -46,10 +126,9 @@ export class AppointmentsEndpoint extends Endpoint {
             .where(({ eb, and }) => and([
                 eb("a.date", ">=", sql<string>`current_date()`),
                 eb("t.active", "=", true),
-            ]))
-            .execute();
+            ]));
 
-        this.sendOk(response, appointments);
+        await this.sendPage(request, response, query);
     }
 }
 
@@ -1,13 +1,24 @@
 import { Request, Response } from "express";
 import { BloodType, db } from "../../db";
-import { Endpoint, GetMethod } from "../base";
+import { Endpoint, GetMethod, HTTPStatus, schemaRef } from "../base";
 
 export class BloodTypesEndpoint extends Endpoint {
     public constructor() {
         super("/blood_types");
     }
 
-    @GetMethod()
+    @GetMethod({
+        schema: {
+            tags: ["Patients", "Misc"],
+            summary: "Get a list of all blood types.",
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved the list of blood types.",
+                    schema: { type: "array", items: schemaRef("BloodType") },
+                },
+            },
+        },
+    })
     public async getAllBloodTypes(_request: Request, response: Response<BloodType[]>): Promise<void> {
         const bloodTypes = await db
             .selectFrom("blood_type")
@@ -1,9 +1,8 @@
 import { Request, Response } from "express";
-import { Clinic, db, isValidEmail, isValidPhone } from "../../db";
-import { TokenType } from "../../tokens";
+import { Clinic, db } from "../../db";
 import { SnakeToCamelRecord } from "../../types";
-import { Endpoint, GetMethod, HTTPStatus, PatchMethod } from "../base";
-import { Validator } from "../validator";
+import { Endpoint, GetMethod, HTTPStatus, PatchMethod, schemaRef } from "../base";
+import { field, Validator } from "../validator";
 
 export class ClinicEndpoint extends Endpoint {
     private clinicUpdateValidator: Validator<Partial<ClinicObject>>;
@@ -12,75 +11,35 @@ export class ClinicEndpoint extends Endpoint {
         super("/clinic");
 
         this.clinicUpdateValidator = new Validator<Partial<ClinicObject>>({
-            name: async (value, key) => {
-                const valid = typeof value === "undefined" || typeof value === "string";
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            email: async (value, key) => {
-                const valid = typeof value === "undefined" || (typeof value === "string" && isValidEmail(value));
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            phone: async (value, key) => {
-                const valid = typeof value === "undefined" || (typeof value === "number" && isValidPhone(value));
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            address: async (value, key) => {
-                const valid = typeof value === "undefined" || typeof value === "string";
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            openingTime: async (value, key) => {
-                const valid = typeof value === "undefined" || (
-                    typeof value === "string" && /^[0-2][0-9]:[0-5][0-9]$/.test(value)
-                );
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            closingTime: async (value, key) => {
-                const valid = typeof value === "undefined" || (
-                    typeof value === "string" && /^[0-2][0-9]:[0-5][0-9]$/.test(value)
-                );
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
+            name: field.string().optional(),
+            email: field.email().optional(),
+            phone: field.phone().optional(),
+            address: field.string().optional(),
+            openingTime: field.string({ regex: /^[0-2][0-9]:[0-5][0-9]$/ }).optional(),
+            closingTime: field.string({ regex: /^[0-2][0-9]:[0-5][0-9]$/ }).optional(),
         });
     }
 
-    @GetMethod()
-    public async getClinic(_request: Request, response: Response<ClinicObject>): Promise<void> {
+    @GetMethod({
+        schema: {
+            tags: ["Clinic"],
+            summary: "Get the clinic's information.",
+            headers: {
+                "If-None-Match": { description: "ETag of the cached information.", schema: { type: "string" } },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved the clinic's information.",
+                    schema: schemaRef("Clinic"),
+                    headers: {
+                        ETag: { description: "Version of the clinic's information.", schema: { type: "string" } },
+                    },
+                },
+                [HTTPStatus.NOT_MODIFIED]: "The clinic's information has not changed since the cached version.",
+            },
+        },
+    })
+    public async getClinic(request: Request, response: Response<ClinicObject>): Promise<void> {
         const clinic = await db
             .selectFrom("clinic")
             .select([
@@ -90,6 +49,7 @@ export class ClinicEndpoint extends Endpoint {
                 "address",
                 "opening_time as openingTime",
                 "closing_time as closingTime",
+                "updated_at as updatedAt",
             ])
             .executeTakeFirst();
 
@@ -97,20 +57,45 @@ export class ClinicEndpoint extends Endpoint {
             throw new Error("Clinic not found.");
         }
 
-        this.sendOk(response, clinic);
+        const { updatedAt, ...clinicInfo } = clinic;
+
+        await this.sendResource(request, response, clinicInfo, updatedAt);
     }
 
-    @PatchMethod({ requiresAuthorization: TokenType.ADMIN })
+    @PatchMethod({
+        permissions: ["clinic:write:any"],
+        schema: {
+            tags: ["Clinic"],
+            summary: "Update the clinic's information.",
+            headers: {
+                "If-Match": {
+                    description: "ETag of the information as last read. The update is rejected if it has changed since.",
+                    schema: { type: "string" },
+                },
+            },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Successfully updated the clinic's information.",
+                [HTTPStatus.NOT_MODIFIED]: "Nothing has changed.",
+                [HTTPStatus.BAD_REQUEST]: "Request body is empty or invalid data.",
+                [HTTPStatus.PRECONDITION_FAILED]: "The clinic's information has changed since it was read.",
+                [HTTPStatus.PRECONDITION_REQUIRED]: "If-Match header is missing and the server requires it.",
+            },
+        },
+    })
     public async updateClinic(request: Request<unknown, unknown, Partial<ClinicObject>>, response: Response): Promise<void> {
         const clinic = await db
             .selectFrom("clinic")
-            .select("id")
+            .select(["id", "updated_at as updatedAt"])
             .executeTakeFirst();
 
         if (!clinic) {
             throw new Error("Clinic not found.");
         }
 
+        if (!this.checkIfMatch(request, response, clinic.updatedAt)) {
+            return;
+        }
+
         const validationResult = await this.clinicUpdateValidator.validate(request.body);
 
         if (!validationResult.ok) {
@@ -134,7 +119,8 @@ export class ClinicEndpoint extends Endpoint {
 
         let update = db
             .updateTable("clinic")
-            .where("id", "=", clinic.id);
+            .where("id", "=", clinic.id)
+            .$if(this.isConditional(request), qb => qb.where("updated_at", "=", clinic.updatedAt));
 
         if (name) {
             update = update.set("name", name);
@@ -162,6 +148,11 @@ export class ClinicEndpoint extends Endpoint {
 
         const modified = await update.execute();
 
+        if (modified[0].numUpdatedRows === 0n) {
+            this.sendModifiedSinceRead(response);
+            return;
+        }
+
         if (modified[0].numChangedRows === 0n) {
             this.sendStatus(response, HTTPStatus.NOT_MODIFIED);
             return;
@@ -171,4 +162,4 @@ export class ClinicEndpoint extends Endpoint {
     }
 }
 
-type ClinicObject = SnakeToCamelRecord<Omit<Clinic, "id">>;
+type ClinicObject = SnakeToCamelRecord<Omit<Clinic, "id" | "updated_at">>;
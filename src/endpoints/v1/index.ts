@@ -1,4 +1,5 @@
 export { AdminsEndpoint } from "./admins";
+export { ApiKeysEndpoint } from "./apiKeys";
 export { AppointmentsEndpoint } from "./appointments";
 export { BloodTypesEndpoint } from "./bloodTypes";
 export { ClinicEndpoint } from "./clinic";
@@ -7,4 +8,5 @@ export { MedicsEndpoint } from "./medics";
 export { PatientsEndpoint } from "./patients";
 export { PingEndpoint } from "./ping";
 export { ScheduleEndpoint } from "./schedule";
+export { SessionsEndpoint } from "./sessions";
 export { SpecialtiesEndpoint } from "./specialties";
@@ -1,13 +1,24 @@
 import { Request, Response } from "express";
 import { db, InsuranceType } from "../../db";
-import { Endpoint, GetMethod } from "../base";
+import { Endpoint, GetMethod, HTTPStatus, schemaRef } from "../base";
 
 export class InsuranceTypesEndpoint extends Endpoint {
     public constructor() {
         super("/insurance_types");
     }
 
-    @GetMethod()
+    @GetMethod({
+        schema: {
+            tags: ["Patients", "Misc"],
+            summary: "Get a list of all insurance types.",
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved the list of insurance types.",
+                    schema: { type: "array", items: schemaRef("InsuranceType") },
+                },
+            },
+        },
+    })
     public async getAllInsuranceTypes(_request: Request, response: Response<InsuranceType[]>): Promise<void> {
         const insuranceTypes = await db
             .selectFrom("insurance_type")
@@ -1,21 +1,53 @@
-import { createHash } from "crypto";
 import { Request, Response } from "express";
 import { sql } from "kysely";
+import { authenticate, clearFailedAttempts, completeChallenge } from "../../auth";
 import {
     Appointment as DBAppointment,
     BigIntString,
     db,
     Employee,
-    isValidEmail,
-    isValidPhone,
+    hashPassword,
+    isValidPassword,
     isValidRut,
     TimeSlot,
+    verifyPassword,
 } from "../../db";
 import { sendEmail } from "../../email/sender";
-import { generateToken, revokeToken, TokenType } from "../../tokens";
+import {
+    getSessions,
+    revokeOtherTokens,
+    revokeSession,
+    revokeToken,
+    rotateToken,
+    SessionInfo,
+    TokenType,
+} from "../../tokens";
+import { getLoginHistory, LoginAttempt, parseDateRange } from "../../loginHistory";
+import { consumePasswordResetCode, createPasswordResetCode, passwordResetCodeLifetime } from "../../passwordResets";
+import { loadPatients } from "../../relations";
+import {
+    confirmTotpEnrollment,
+    disableTotp,
+    getTotpStatus,
+    setTotpRequired,
+    startTotpEnrollment,
+    TotpEnrollment,
+    TotpStatus,
+    verifySecondFactor,
+} from "../../totp";
 import { SnakeToCamelRecord } from "../../types";
-import { DeleteMethod, Endpoint, GetMethod, HTTPStatus, PatchMethod, PostMethod } from "../base";
-import { Validator } from "../validator";
+import {
+    DeleteMethod,
+    Endpoint,
+    GetMethod,
+    HTTPStatus,
+    ownedBy,
+    PatchMethod,
+    PostMethod,
+    PutMethod,
+    schemaRef,
+} from "../base";
+import { field, Validator } from "../validator";
 
 export class MedicsEndpoint extends Endpoint {
     private readonly medicUpdateValidator: Validator<MedicUpdate>;
@@ -31,90 +63,13 @@ export class MedicsEndpoint extends Endpoint {
         super("/medics");
 
         const days = ["mo", "tu", "we", "th", "fr", "sa", "su"] as const;
-        const daysSet = new Set<string>(days);
 
         this.medicUpdateValidator = new Validator<MedicUpdate>({
-            firstName: (value, key) => {
-                if (typeof value === "undefined") {
-                    return {
-                        ok: true,
-                    };
-                }
-
-                const valid = !!value && typeof value === "string";
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            secondName: (value, key) => {
-                if (typeof value === "undefined") {
-                    return {
-                        ok: true,
-                    };
-                }
-
-                const valid = !value || typeof value === "string";
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            firstLastName: (value, key) => {
-                if (typeof value === "undefined") {
-                    return {
-                        ok: true,
-                    };
-                }
-
-                const valid = !!value && typeof value === "string";
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            secondLastName: (value, key) => {
-                if (typeof value === "undefined") {
-                    return {
-                        ok: true,
-                    };
-                }
-
-                const valid = !value || typeof value === "string";
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            email: async (value, key) => {
-                if (typeof value === "undefined") {
-                    return {
-                        ok: true,
-                    };
-                }
-
-                const valid = !!value && typeof value === "string" && isValidEmail(value);
-
-                if (!valid) {
-                    return {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                }
-
+            firstName: field.string({ min: 1 }).optional(),
+            secondName: field.string().orEmpty(),
+            firstLastName: field.string({ min: 1 }).optional(),
+            secondLastName: field.string().orEmpty(),
+            email: field.email().check(async (value, key) => {
                 const employee = await db
                     .selectFrom("employee")
                     .select("rut")
@@ -128,24 +83,8 @@ export class MedicsEndpoint extends Endpoint {
                     status: HTTPStatus.CONFLICT,
                     message: `An employee with ${key} ${value} already exists.`,
                 };
-            },
-            phone: async (value, key) => {
-                if (typeof value === "undefined") {
-                    return {
-                        ok: true,
-                    };
-                }
-
-                const valid = !!value && typeof value === "number" && isValidPhone(value);
-
-                if (!valid) {
-                    return {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                }
-
+            }).optional(),
+            phone: field.phone().check(async (value, key) => {
                 const employee = await db
                     .selectFrom("employee")
                     .select("rut")
@@ -159,158 +98,46 @@ export class MedicsEndpoint extends Endpoint {
                     status: HTTPStatus.CONFLICT,
                     message: `An employee with ${key} ${value} already exists.`,
                 };
-            },
-            birthDate: (value, key) => {
-                if (typeof value === "undefined") {
-                    return {
-                        ok: true,
-                    };
-                }
-
-                const valid = !!value
-                    && typeof value === "string"
-                    && /^\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[1-2][0-9]|3[0-1])$/.test(value);
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            gender: (value, key) => {
-                if (typeof value === "undefined") {
-                    return {
-                        ok: true,
-                    };
-                }
-
-                const valid = !!value && typeof value === "string";
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            specialtyId: async (value, key) => {
-                if (typeof value === "undefined") {
-                    return {
-                        ok: true,
-                    };
-                }
-
-                if (!(value && typeof value === "number" && value > 0)) {
-                    return {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                }
-
+            }).optional(),
+            birthDate: field.date().optional(),
+            gender: field.string({ min: 1 }).optional(),
+            specialtyId: field.integer({ min: 1 }).check(async (value) => {
                 const specialty = await db
                     .selectFrom("specialty")
                     .select("id")
                     .where("id", "=", value)
                     .executeTakeFirst();
 
-                return specialty ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
+                return !!specialty;
+            }).optional(),
         });
 
+        const appointmentFields = {
+            date: field.date({ allowPast: false }),
+            description: field.string({ min: 1 }),
+            timeSlotId: field.integer({ min: 1 }).check(async (value) => {
+                const timeSlot = await db
+                    .selectFrom("time_slot")
+                    .select("id")
+                    .where("id", "=", value)
+                    .where("active", "=", true)
+                    .executeTakeFirst();
+
+                return !!timeSlot;
+            }),
+        };
+
         this.newAppointmentValidator = new Validator<NewAppointment>({
-            patientRut: {
-                required: true,
-                validate: async (value, key) => {
-                    if (!value || typeof value !== "string" || !isValidRut(value)) {
-                        return {
-                            ok: false,
-                            status: HTTPStatus.BAD_REQUEST,
-                            message: `Invalid ${key}.`,
-                        };
-                    }
-
-                    const patient = await db
-                        .selectFrom("patient")
-                        .select("rut")
-                        .where("rut", "=", value)
-                        .executeTakeFirst();
-
-                    return patient ? {
-                        ok: true,
-                    } : {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                },
-            },
-            date: {
-                required: true,
-                validate: (value, key) => {
-                    const today = new Date(new Date().toLocaleDateString("es-CL").split("-").reverse().join("-")).getTime();
-
-                    const valid = !!value
-                        && typeof value === "string"
-                        && /^\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[1-2][0-9]|3[0-1])$/.test(value)
-                        && new Date(value).getTime() >= today;
-
-                    return valid ? {
-                        ok: true,
-                    } : {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                },
-            },
-            description: {
-                required: true,
-                validate: (value, key) => {
-                    const valid = !!value && typeof value === "string";
-                    return valid ? {
-                        ok: true,
-                    } : {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                },
-            },
-            timeSlotId: {
-                required: true,
-                validate: async (value, key) => {
-                    if (!(value && typeof value === "number" && value > 0)) {
-                        return {
-                            ok: false,
-                            status: HTTPStatus.BAD_REQUEST,
-                            message: `Invalid ${key}.`,
-                        };
-                    }
-
-                    const timeSlot = await db
-                        .selectFrom("time_slot")
-                        .select("id")
-                        .where("id", "=", value)
-                        .where("active", "=", true)
-                        .executeTakeFirst();
-
-                    return timeSlot ? {
-                        ok: true,
-                    } : {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                },
-            },
+            patientRut: field.rut().check(async (value) => {
+                const patient = await db
+                    .selectFrom("patient")
+                    .select("rut")
+                    .where("rut", "=", value)
+                    .executeTakeFirst();
+
+                return !!patient;
+            }),
+            ...appointmentFields,
         }, async ({ patientRut, date, timeSlotId }) => {
             const day = days[(new Date(date).getUTCDay() + 1) % 7];
 
@@ -384,21 +211,9 @@ export class MedicsEndpoint extends Endpoint {
             oldAppointment: Required<AppointmentUpdate>,
             patientRut: string,
         ]>({
-            date: (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newAppointmentValidator.validators[key].validate(value, key);
-            },
-            description: (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newAppointmentValidator.validators[key].validate(value, key);
-            },
-            timeSlotId: (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newAppointmentValidator.validators[key].validate(value, key);
-            },
+            date: appointmentFields.date.optional(),
+            description: appointmentFields.description.optional(),
+            timeSlotId: appointmentFields.timeSlotId.optional(),
             confirmed: (value, key) => {
                 const valid = typeof value === "undefined" || (typeof value === "boolean" && value);
                 return valid ? {
@@ -417,46 +232,14 @@ export class MedicsEndpoint extends Endpoint {
             });
         });
 
+        const scheduleSlotFields = {
+            day: field.enum(days),
+            start: field.time(),
+            end: field.time(),
+        };
+
         this.newScheduleSlotValidator = new Validator<NewScheduleSlot, [scheduleId: number]>({
-            day: {
-                required: true,
-                validate: (value, key) => {
-                    const valid = typeof value === "string" && daysSet.has(value);
-                    return valid ? {
-                        ok: true,
-                    } : {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                },
-            },
-            start: {
-                required: true,
-                validate: (value, key) => {
-                    const valid = typeof value === "string" && /^(?:[0-1][0-9]|2[0-3]):[0-5][0-9]$/.test(value);
-                    return valid ? {
-                        ok: true,
-                    } : {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                },
-            },
-            end: {
-                required: true,
-                validate: (value, key) => {
-                    const valid = typeof value === "string" && /^(?:[0-1][0-9]|2[0-3]):[0-5][0-9]$/.test(value);
-                    return valid ? {
-                        ok: true,
-                    } : {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                },
-            },
+            ...scheduleSlotFields,
         }, async ({ day, start, end }, scheduleId) => {
             const doesOverlap = await db
                 .selectFrom("time_slot")
@@ -486,21 +269,9 @@ export class MedicsEndpoint extends Endpoint {
         });
 
         this.scheduleSlotUpdateValidator = new Validator<ScheduleSlotUpdate, [timeSlot: SnakeToCamelRecord<TimeSlot>]>({
-            day: (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newScheduleSlotValidator.validators[key].validate(value, key);
-            },
-            start: (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newScheduleSlotValidator.validators[key].validate(value, key);
-            },
-            end: (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newScheduleSlotValidator.validators[key].validate(value, key);
-            },
+            day: scheduleSlotFields.day.optional(),
+            start: scheduleSlotFields.start.optional(),
+            end: scheduleSlotFields.end.optional(),
         }, async (object, timeSlot) => {
             const day = object.day ?? timeSlot.day;
             const start = object.start ?? timeSlot.start;
@@ -552,9 +323,47 @@ export class MedicsEndpoint extends Endpoint {
         });
     }
 
-    @GetMethod()
-    public async getAllMedics(_request: Request, response: Response<Medic[]>): Promise<void> {
-        const medics = await db
+    @GetMethod({
+        list: {
+            sort: {
+                rut: "e.rut",
+                fullName: "fullName",
+                specialty: "sp.name",
+            },
+            defaultSort: ["fullName"],
+            filters: {
+                specialty: { column: "sp.name", type: "string" },
+                gender: { column: "e.gender", type: "string" },
+            },
+        },
+        fields: {
+            select: ["rut", "fullName", "email", "phone", "birthDate", "gender", "specialty"],
+        },
+        csv: {
+            filename: "medics",
+            columns: {
+                "Rut": "rut",
+                "Full name": "fullName",
+                "Specialty": "specialty",
+                "Email": "email",
+                "Phone": "phone",
+                "Birth date": "birthDate",
+                "Gender": "gender",
+            },
+        },
+        schema: {
+            tags: ["Medics"],
+            summary: "Get a list of all medics.",
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved medics list.",
+                    schema: { type: "array", items: schemaRef("Medic") },
+                },
+            },
+        },
+    })
+    public async getAllMedics(request: Request, response: Response<Medic[]>): Promise<void> {
+        const query = db
             .selectFrom("medic as m")
             .innerJoin("employee as e", "e.rut", "m.rut")
             .innerJoin("specialty as sp", "sp.id", "m.specialty_id")
@@ -571,13 +380,39 @@ export class MedicsEndpoint extends Endpoint {
                 "e.birth_date as birthDate",
                 "e.gender",
                 "sp.name as specialty",
-            ])
-            .execute();
+            ]);
 
-        this.sendOk(response, medics);
+        await this.sendPage(request, response, query);
     }
 
-    @GetMethod("/:rut")
+    @GetMethod({
+        path: "/:rut",
+        fields: {
+            select: ["rut", "fullName", "email", "phone", "birthDate", "gender", "specialty"],
+        },
+        schema: {
+            tags: ["Medics"],
+            summary: "Get a medic by their rut.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            headers: {
+                "If-None-Match": { description: "ETag of the cached information.", schema: { type: "string" } },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved the medic's information.",
+                    schema: schemaRef("Medic"),
+                    headers: {
+                        ETag: { description: "Version of the medic's information.", schema: { type: "string" } },
+                    },
+                },
+                [HTTPStatus.NOT_MODIFIED]: "The medic's information has not changed since the cached version.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, or invalid fields.",
+                [HTTPStatus.NOT_FOUND]: "Medic does not exist.",
+            },
+        },
+    })
     public async getMedic(request: Request<{ rut: string }>, response: Response<Medic>): Promise<void> {
         const { rut } = request.params;
 
@@ -604,6 +439,8 @@ export class MedicsEndpoint extends Endpoint {
                 "e.birth_date as birthDate",
                 "e.gender",
                 "sp.name as specialty",
+                "e.updated_at as employeeUpdatedAt",
+                "m.updated_at as medicUpdatedAt",
             ])
             .where("m.rut", "=", rut)
             .executeTakeFirst();
@@ -613,10 +450,39 @@ export class MedicsEndpoint extends Endpoint {
             return;
         }
 
-        this.sendOk(response, medic);
+        const { employeeUpdatedAt, medicUpdatedAt, ...medicInfo } = medic;
+
+        await this.sendResource(request, response, medicInfo, employeeUpdatedAt, medicUpdatedAt);
     }
 
-    @PatchMethod({ path: "/:rut", requiresAuthorization: [TokenType.MEDIC, TokenType.ADMIN] })
+    @PatchMethod({
+        path: "/:rut",
+        permissions: ["medics:write:own", "medics:write:any"],
+        owner: ownedBy(TokenType.MEDIC),
+        schema: {
+            tags: ["Medics"],
+            summary: "Update a medic's data. Medics can only update their own information.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("MedicUpdate") },
+            headers: {
+                "If-Match": {
+                    description: "ETag of the medic as last read. The request is rejected if it has changed since.",
+                    schema: { type: "string" },
+                },
+            },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Successfully updated medic.",
+                [HTTPStatus.NOT_MODIFIED]: "Medic was not modified.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut or medic data.",
+                [HTTPStatus.NOT_FOUND]: "Medic does not exist.",
+                [HTTPStatus.CONFLICT]: "Employee with that email or phone already exists.",
+                [HTTPStatus.PRECONDITION_FAILED]: "Medic has been modified since it was read.",
+                [HTTPStatus.PRECONDITION_REQUIRED]: "If-Match header is missing and the server requires it.",
+            },
+        },
+    })
     public async updateMedic(request: Request<{ rut: string }, unknown, MedicUpdate>, response: Response): Promise<void> {
         const { rut } = request.params;
 
@@ -625,17 +491,14 @@ export class MedicsEndpoint extends Endpoint {
             return;
         }
 
-        const token = this.getToken(request)!;
-
-        if (token.type === TokenType.MEDIC && token.rut !== rut) {
-            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid session token.");
-            return;
-        }
-
         const medic = await db
-            .selectFrom("medic")
-            .select("rut")
-            .where("rut", "=", rut)
+            .selectFrom("medic as m")
+            .innerJoin("employee as e", "e.rut", "m.rut")
+            .select([
+                "e.updated_at as employeeUpdatedAt",
+                "m.updated_at as medicUpdatedAt",
+            ])
+            .where("m.rut", "=", rut)
             .executeTakeFirst();
 
         if (!medic) {
@@ -643,6 +506,16 @@ export class MedicsEndpoint extends Endpoint {
             return;
         }
 
+        if (!this.checkIfMatch(request, response, medic.employeeUpdatedAt, medic.medicUpdatedAt)) {
+            return;
+        }
+
+        // the email is where password reset codes are sent to
+        if (typeof request.body.email !== "undefined" && this.getToken(request)?.impersonationId) {
+            this.sendError(response, HTTPStatus.FORBIDDEN, "Email cannot be changed while impersonating.");
+            return;
+        }
+
         const validationResult = await this.medicUpdateValidator.validate(request.body);
 
         if (!validationResult.ok) {
@@ -668,24 +541,55 @@ export class MedicsEndpoint extends Endpoint {
 
         const { specialtyId } = validationResult.value;
 
-        const employeeUpdateResult = await db
-            .updateTable("employee")
-            .set(employeeUpdate)
-            .where("rut", "=", rut)
-            .execute();
+        const conditional = this.isConditional(request);
+
+        // the medic spans two tables, so both versions are locked while they're compared and written
+        const updated = await db.transaction().execute(async (tsx) => {
+            if (conditional) {
+                const current = await tsx
+                    .selectFrom("medic as m")
+                    .innerJoin("employee as e", "e.rut", "m.rut")
+                    .select([
+                        "e.updated_at as employeeUpdatedAt",
+                        "m.updated_at as medicUpdatedAt",
+                    ])
+                    .where("m.rut", "=", rut)
+                    .forUpdate()
+                    .executeTakeFirst();
 
-        let updated = (employeeUpdateResult[0].numChangedRows ?? 0n) > 0n;
+                if (current?.employeeUpdatedAt !== medic.employeeUpdatedAt
+                    || current.medicUpdatedAt !== medic.medicUpdatedAt
+                ) {
+                    return null;
+                }
+            }
 
-        if (specialtyId) {
-            const medicUpdateResult = await db
-                .updateTable("medic")
-                .set({
-                    specialty_id: specialtyId,
-                })
+            const employeeUpdateResult = await tsx
+                .updateTable("employee")
+                .set(employeeUpdate)
                 .where("rut", "=", rut)
                 .execute();
 
-            updated = (medicUpdateResult[0].numChangedRows ?? 0n) > 0n;
+            let changed = (employeeUpdateResult[0].numChangedRows ?? 0n) > 0n;
+
+            if (specialtyId) {
+                const medicUpdateResult = await tsx
+                    .updateTable("medic")
+                    .set({
+                        specialty_id: specialtyId,
+                    })
+                    .where("rut", "=", rut)
+                    .execute();
+
+                changed = (medicUpdateResult[0].numChangedRows ?? 0n) > 0n;
+            }
+
+            return changed;
+        });
+
+        if (updated === null) {
+            this.sendModifiedSinceRead(response);
+            return;
         }
 
         if (!updated) {
@@ -696,7 +600,81 @@ export class MedicsEndpoint extends Endpoint {
         this.sendStatus(response, HTTPStatus.NO_CONTENT);
     }
 
-    @GetMethod({ path: "/:rut/appointments", requiresAuthorization: [TokenType.MEDIC, TokenType.ADMIN] })
+    @GetMethod({
+        path: "/:rut/appointments",
+        permissions: ["appointments:read:own", "appointments:read:any"],
+        owner: ownedBy(TokenType.MEDIC),
+        list: {
+            sort: {
+                date: "a.date",
+                start: "t.start",
+                patientRut: "a.patient_rut",
+            },
+            defaultSort: ["date", "start"],
+            filters: {
+                patientRut: { column: "a.patient_rut", type: "string" },
+                date: { column: "a.date", type: "date" },
+                confirmed: { column: "a.confirmed", type: "boolean" },
+            },
+        },
+        fields: {
+            select: [
+                "id",
+                "patientRut",
+                "patientFullName",
+                "patientBirthDate",
+                "patientEmail",
+                "patientPhone",
+                "date",
+                "start",
+                "end",
+                "description",
+                "confirmed",
+            ],
+            include: {
+                patient: { key: "patientRut", load: loadPatients, schema: schemaRef("PatientContact") },
+            },
+        },
+        csv: {
+            filename: "appointments",
+            columns: {
+                "Id": "id",
+                "Date": "date",
+                "Start": "start",
+                "End": "end",
+                "Patient rut": "patientRut",
+                "Patient": "patientFullName",
+                "Patient birth date": "patientBirthDate",
+                "Patient email": "patientEmail",
+                "Patient phone": "patientPhone",
+                "Description": "description",
+                "Confirmed": "confirmed",
+            },
+        },
+        schema: {
+            tags: ["Medics", "Appointments"],
+            summary: "Get a list of the medic's future appointments. A medic can only get their own.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved the medic's appointments.",
+                    schema: {
+                        type: "array",
+                        items: {
+                            allOf: [
+                                schemaRef("Appointment"),
+                                { type: "object", required: ["patientRut"], properties: { patientRut: schemaRef("Rut") } },
+                            ],
+                        },
+                    },
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, or invalid page, limit, sort, filters, fields, include or format.",
+                [HTTPStatus.NOT_FOUND]: "Medic does not exist.",
+            },
+        },
+    })
     public async getAppointments(request: Request<{ rut: string }>, response: Response<Appointment[]>): Promise<void> {
         const { rut } = request.params;
 
@@ -705,13 +683,6 @@ export class MedicsEndpoint extends Endpoint {
             return;
         }
 
-        const token = this.getToken(request)!;
-
-        if (token.type === TokenType.MEDIC && token.rut !== rut) {
-            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid session token.");
-            return;
-        }
-
         const { scheduleId } = await db
             .selectFrom("medic")
             .select("schedule_id as scheduleId")
@@ -723,7 +694,7 @@ export class MedicsEndpoint extends Endpoint {
             return;
         }
 
-        const appointments = await db
+        const query = db
             .selectFrom("appointment as a")
             .innerJoin("time_slot as t", "t.id", "a.time_slot_id")
             .innerJoin("patient as p", "p.rut", "a.patient_rut")
@@ -749,16 +720,65 @@ export class MedicsEndpoint extends Endpoint {
                 eb("t.schedule_id", "=", scheduleId),
                 eb("a.date", ">=", sql<string>`current_date()`),
                 eb("t.active", "=", true),
-            ]))
-            .execute();
+            ]));
 
-        this.sendOk(response, appointments);
+        await this.sendPage(request, response, query);
     }
 
-    @PostMethod({ path: "/:rut/appointments", requiresAuthorization: [TokenType.MEDIC, TokenType.ADMIN] })
-    public async createAppointment(
-        request: Request<{ rut: string }, unknown, NewAppointment>,
-        response: Response
+    @GetMethod({
+        path: "/:rut/appointments/:id",
+        permissions: ["appointments:read:own", "appointments:read:any"],
+        owner: ownedBy(TokenType.MEDIC),
+        fields: {
+            select: [
+                "id",
+                "patientRut",
+                "patientFullName",
+                "patientBirthDate",
+                "patientEmail",
+                "patientPhone",
+                "date",
+                "start",
+                "end",
+                "description",
+                "confirmed",
+            ],
+            include: {
+                patient: { key: "patientRut", load: loadPatients, schema: schemaRef("PatientContact") },
+            },
+        },
+        schema: {
+            tags: ["Medics", "Appointments"],
+            summary: "Get one of the medic's appointments. A medic can only get their own.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+                id: { description: "The appointment's id.", schema: { type: "number", minimum: 1 } },
+            },
+            headers: {
+                "If-None-Match": { description: "ETag of the cached appointment.", schema: { type: "string" } },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved the appointment.",
+                    schema: {
+                        allOf: [
+                            schemaRef("Appointment"),
+                            { type: "object", required: ["patientRut"], properties: { patientRut: schemaRef("Rut") } },
+                        ],
+                    },
+                    headers: {
+                        ETag: { description: "Version of the appointment.", schema: { type: "string" } },
+                    },
+                },
+                [HTTPStatus.NOT_MODIFIED]: "The appointment has not changed since the cached version.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut or id, or invalid fields or include.",
+                [HTTPStatus.NOT_FOUND]: "Medic or appointment do not exist.",
+            },
+        },
+    })
+    public async getAppointment(
+        request: Request<{ rut: string; id: string }>,
+        response: Response<Appointment>
     ): Promise<void> {
         const { rut } = request.params;
 
@@ -767,10 +787,102 @@ export class MedicsEndpoint extends Endpoint {
             return;
         }
 
-        const token = this.getToken(request)!;
+        const id = await new Promise<bigint | null>(resolve => {
+            try {
+                resolve(BigInt(request.params.id));
+            } catch (_) {
+                resolve(null);
+            }
+        });
+
+        if (!id || id <= 0n) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid appointment id.");
+            return;
+        }
+
+        const medic = await db
+            .selectFrom("medic")
+            .select("rut")
+            .where("rut", "=", rut)
+            .executeTakeFirst();
+
+        if (!medic) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Medic ${rut} does not exist.`);
+            return;
+        }
+
+        const appointment = await db
+            .selectFrom("appointment as a")
+            .innerJoin("time_slot as t", "t.id", "a.time_slot_id")
+            .innerJoin("medic as m", "m.schedule_id", "t.schedule_id")
+            .innerJoin("patient as p", "p.rut", "a.patient_rut")
+            .select(({ ref }) => [
+                "a.id",
+                "a.patient_rut as patientRut",
+                sql<string>`concat(
+                    ${ref("p.first_name")}, " ",
+                    ifnull(concat(${ref("p.second_name")}, " "), ""),
+                    ${ref("p.first_last_name")},
+                    ifnull(concat(" ", ${ref("p.second_last_name")}), "")
+                )`.as("patientFullName"),
+                "p.birth_date as patientBirthDate",
+                "p.email as patientEmail",
+                "p.phone as patientPhone",
+                "a.date",
+                "t.start",
+                "t.end",
+                "a.description",
+                "a.confirmed",
+                "a.updated_at as updatedAt",
+            ])
+            .where("a.id", "=", id.toString() as BigIntString)
+            .where("m.rut", "=", rut)
+            .executeTakeFirst();
+
+        if (!appointment) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Appointment ${id} for medic ${rut} does not exist.`);
+            return;
+        }
 
-        if (token.type === TokenType.MEDIC && token.rut !== rut) {
-            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid session token.");
+        const { updatedAt, ...appointmentInfo } = appointment;
+
+        await this.sendResource(request, response, appointmentInfo, updatedAt);
+    }
+
+    @PostMethod({
+        path: "/:rut/appointments",
+        permissions: ["appointments:write:own", "appointments:write:any"],
+        owner: ownedBy(TokenType.MEDIC),
+        schema: {
+            tags: ["Medics", "Appointments"],
+            summary: "Create a new appointment for the medic.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            body: {
+                schema: {
+                    allOf: [
+                        schemaRef("NewAppointment"),
+                        { type: "object", required: ["patientRut"], properties: { patientRut: schemaRef("Rut") } },
+                    ],
+                },
+            },
+            responses: {
+                [HTTPStatus.CREATED]: "Successfully created new appointment.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut or request body.",
+                [HTTPStatus.NOT_FOUND]: "Medic does not exist.",
+                [HTTPStatus.CONFLICT]: "Request body creates conflicts with existing data.",
+            },
+        },
+    })
+    public async createAppointment(
+        request: Request<{ rut: string }, unknown, NewAppointment>,
+        response: Response
+    ): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
             return;
         }
 
@@ -860,8 +972,36 @@ export class MedicsEndpoint extends Endpoint {
         );
     }
 
-    @PatchMethod({ path: "/:rut/appointments/:id", requiresAuthorization: [TokenType.MEDIC, TokenType.ADMIN] })
-    public async updateAppointment(
+    @PatchMethod({
+        path: "/:rut/appointments/:id",
+        permissions: ["appointments:write:own", "appointments:write:any"],
+        owner: ownedBy(TokenType.MEDIC),
+        schema: {
+            tags: ["Medics", "Appointments"],
+            summary: "Update a medic's appointment.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+                id: { description: "The appointment's id.", schema: { type: "number", minimum: 1 } },
+            },
+            body: { schema: schemaRef("AppointmentUpdate") },
+            headers: {
+                "If-Match": {
+                    description: "ETag of the appointment as last read. The request is rejected if it has changed since.",
+                    schema: { type: "string" },
+                },
+            },
+            responses: {
+                [HTTPStatus.CREATED]: "Successfully updated the appointment.",
+                [HTTPStatus.NOT_MODIFIED]: "Appointment was not modified.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut or request body.",
+                [HTTPStatus.NOT_FOUND]: "Medic or appointment do not exist.",
+                [HTTPStatus.CONFLICT]: "Request body creates conflicts with existing data.",
+                [HTTPStatus.PRECONDITION_FAILED]: "Appointment has been modified since it was read.",
+                [HTTPStatus.PRECONDITION_REQUIRED]: "If-Match header is missing and the server requires it.",
+            },
+        },
+    })
+    public async updateAppointment(
         request: Request<{ rut: string; id: string }, unknown, AppointmentUpdate>,
         response: Response
     ): Promise<void> {
@@ -872,13 +1012,6 @@ export class MedicsEndpoint extends Endpoint {
             return;
         }
 
-        const token = this.getToken(request)!;
-
-        if (token.type === TokenType.MEDIC && token.rut !== rut) {
-            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid session token.");
-            return;
-        }
-
         const id = await new Promise<bigint | null>(resolve => {
             try {
                 resolve(BigInt(request.params.id));
@@ -917,6 +1050,7 @@ export class MedicsEndpoint extends Endpoint {
                 "a.time_slot_id as timeSlotId",
                 "a.description",
                 "a.confirmed",
+                "a.updated_at as updatedAt",
                 "e.email as medicEmail",
                 sql<string>`concat(
                     ${ref("e.first_name")}, " ",
@@ -941,6 +1075,10 @@ export class MedicsEndpoint extends Endpoint {
             return;
         }
 
+        if (!this.checkIfMatch(request, response, appointment.updatedAt)) {
+            return;
+        }
+
         const validationResult = await this.appointmentUpdateValidator.validate(request.body, appointment, rut);
 
         if (!validationResult.ok) {
@@ -953,6 +1091,7 @@ export class MedicsEndpoint extends Endpoint {
         const updateResult = await db
             .updateTable("appointment")
             .where("id", "=", idString)
+            .$if(this.isConditional(request), qb => qb.where("updated_at", "=", appointment.updatedAt))
             .set({
                 date,
                 time_slot_id: timeSlotId,
@@ -961,6 +1100,11 @@ export class MedicsEndpoint extends Endpoint {
             })
             .execute();
 
+        if (updateResult[0].numUpdatedRows === 0n) {
+            this.sendModifiedSinceRead(response);
+            return;
+        }
+
         if (updateResult[0].numChangedRows === 0n) {
             this.sendStatus(response, HTTPStatus.NOT_MODIFIED);
             return;
@@ -985,7 +1129,32 @@ export class MedicsEndpoint extends Endpoint {
         }
     }
 
-    @DeleteMethod({ path: "/:rut/appointments/:id", requiresAuthorization: [TokenType.MEDIC, TokenType.ADMIN] })
+    @DeleteMethod({
+        path: "/:rut/appointments/:id",
+        permissions: ["appointments:write:own", "appointments:write:any"],
+        owner: ownedBy(TokenType.MEDIC),
+        schema: {
+            tags: ["Medics", "Appointments"],
+            summary: "Delete a medic's appointment.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+                id: { description: "The appointment's id.", schema: { type: "number", minimum: 1 } },
+            },
+            headers: {
+                "If-Match": {
+                    description: "ETag of the appointment as last read. The request is rejected if it has changed since.",
+                    schema: { type: "string" },
+                },
+            },
+            responses: {
+                [HTTPStatus.CREATED]: "Successfully deleted the appointment.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut or id.",
+                [HTTPStatus.NOT_FOUND]: "Medic or appointment do not exist.",
+                [HTTPStatus.PRECONDITION_FAILED]: "Appointment has been modified since it was read.",
+                [HTTPStatus.PRECONDITION_REQUIRED]: "If-Match header is missing and the server requires it.",
+            },
+        },
+    })
     public async deleteAppointment(request: Request<{ rut: string; id: string }>, response: Response): Promise<void> {
         const { rut } = request.params;
 
@@ -994,13 +1163,6 @@ export class MedicsEndpoint extends Endpoint {
             return;
         }
 
-        const token = this.getToken(request)!;
-
-        if (token.type === TokenType.MEDIC && token.rut !== rut) {
-            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid session token.");
-            return;
-        }
-
         const id = await new Promise<bigint | null>(resolve => {
             try {
                 resolve(BigInt(request.params.id));
@@ -1035,6 +1197,7 @@ export class MedicsEndpoint extends Endpoint {
             .innerJoin("patient as p", "p.rut", "a.patient_rut")
             .select(({ ref }) => [
                 "a.date",
+                "a.updated_at as updatedAt",
                 "t.start",
                 "e.email as medicEmail",
                 sql<string>`concat(
@@ -1060,11 +1223,23 @@ export class MedicsEndpoint extends Endpoint {
             return;
         }
 
-        await db
+        if (!this.checkIfMatch(request, response, appointment.updatedAt)) {
+            return;
+        }
+
+        const conditional = this.isConditional(request);
+
+        const deleteResult = await db
             .deleteFrom("appointment")
             .where("id", "=", idString)
+            .$if(conditional, qb => qb.where("updated_at", "=", appointment.updatedAt))
             .execute();
 
+        if (conditional && deleteResult[0].numDeletedRows === 0n) {
+            this.sendModifiedSinceRead(response);
+            return;
+        }
+
         this.sendStatus(response, HTTPStatus.NO_CONTENT);
 
         await sendEmail(
@@ -1082,7 +1257,26 @@ export class MedicsEndpoint extends Endpoint {
         );
     }
 
-    @GetMethod({ path: "/:rut/schedule", requiresAuthorization: [TokenType.MEDIC, TokenType.ADMIN] })
+    @GetMethod({
+        path: "/:rut/schedule",
+        permissions: ["schedules:read:own", "schedules:read:any"],
+        owner: ownedBy(TokenType.MEDIC),
+        schema: {
+            tags: ["Medics", "Schedule"],
+            summary: "Get a medic's schedule by their rut.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved the medic's schedule.",
+                    schema: { type: "array", items: schemaRef("ScheduleSlotWithAppointments") },
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut.",
+                [HTTPStatus.NOT_FOUND]: "Medic does not exist.",
+            },
+        },
+    })
     public async getMedicSchedule(request: Request<{ rut: string }>, response: Response<ScheduleSlot[]>): Promise<void> {
         const { rut } = request.params;
 
@@ -1091,13 +1285,6 @@ export class MedicsEndpoint extends Endpoint {
             return;
         }
 
-        const token = this.getToken(request)!;
-
-        if (token.type === TokenType.MEDIC && token.rut !== rut) {
-            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid session token.");
-            return;
-        }
-
         const medic = await db
             .selectFrom("medic")
             .select("rut")
@@ -1137,7 +1324,24 @@ export class MedicsEndpoint extends Endpoint {
         this.sendOk(response, schedule);
     }
 
-    @PostMethod({ path: "/:rut/schedule/slots", requiresAuthorization: [TokenType.MEDIC, TokenType.ADMIN] })
+    @PostMethod({
+        path: "/:rut/schedule/slots",
+        permissions: ["schedules:write:own", "schedules:write:any"],
+        owner: ownedBy(TokenType.MEDIC),
+        schema: {
+            tags: ["Medics", "Schedule"],
+            summary: "Add a new slot to the medic's schedule.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("ScheduleSlot") },
+            responses: {
+                [HTTPStatus.CREATED]: "Successfully created the new slot.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut or slot data.",
+                [HTTPStatus.NOT_FOUND]: "Medic does not exist.",
+            },
+        },
+    })
     public async createMedicScheduleSlot(
         request: Request<{ rut: string }, unknown, NewScheduleSlot[]>,
         response: Response
@@ -1149,13 +1353,6 @@ export class MedicsEndpoint extends Endpoint {
             return;
         }
 
-        const token = this.getToken(request)!;
-
-        if (token.type === TokenType.MEDIC && token.rut !== rut) {
-            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid session token.");
-            return;
-        }
-
         const { scheduleId } = await db
             .selectFrom("medic as m")
             .select("schedule_id as scheduleId")
@@ -1199,7 +1396,25 @@ export class MedicsEndpoint extends Endpoint {
         this.sendStatus(response, HTTPStatus.CREATED);
     }
 
-    @PatchMethod({ path: "/:rut/schedule/slots/:id", requiresAuthorization: [TokenType.MEDIC, TokenType.ADMIN] })
+    @PatchMethod({
+        path: "/:rut/schedule/slots/:id",
+        permissions: ["schedules:write:own", "schedules:write:any"],
+        owner: ownedBy(TokenType.MEDIC),
+        schema: {
+            tags: ["Medics", "Schedule"],
+            summary: "Update a medic's schedule slot by its id.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+                id: { description: "The time slot's id.", schema: { type: "number", minimum: 1 } },
+            },
+            body: { schema: schemaRef("ScheduleSlotUpdate") },
+            responses: {
+                [HTTPStatus.CREATED]: "Successfully updated the slot.",
+                [HTTPStatus.NOT_MODIFIED]: "Slot was not modified.",
+                [HTTPStatus.NOT_FOUND]: "Medic or slot not exist.",
+            },
+        },
+    })
     public async updateMedicScheduleSlot(
         request: Request<{ rut: string; id: string }, unknown, ScheduleSlotUpdate>,
         response: Response
@@ -1211,13 +1426,6 @@ export class MedicsEndpoint extends Endpoint {
             return;
         }
 
-        const token = this.getToken(request)!;
-
-        if (token.type === TokenType.MEDIC && token.rut !== rut) {
-            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid session token.");
-            return;
-        }
-
         const id = +request.params.id;
 
         if (isNaN(id) || id <= 0) {
@@ -1275,7 +1483,23 @@ export class MedicsEndpoint extends Endpoint {
         this.sendStatus(response, HTTPStatus.NO_CONTENT);
     }
 
-    @DeleteMethod({ path: "/:rut/schedule/slots/:id", requiresAuthorization: [TokenType.MEDIC, TokenType.ADMIN] })
+    @DeleteMethod({
+        path: "/:rut/schedule/slots/:id",
+        permissions: ["schedules:write:own", "schedules:write:any"],
+        owner: ownedBy(TokenType.MEDIC),
+        schema: {
+            tags: ["Medics", "Schedule"],
+            summary: "Delete a medic's schedule slot by its id.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+                id: { description: "The time slot's id.", schema: { type: "number", minimum: 1 } },
+            },
+            responses: {
+                [HTTPStatus.CREATED]: "Successfully deleted the slot.",
+                [HTTPStatus.NOT_FOUND]: "Medic or slot do not exist.",
+            },
+        },
+    })
     public async deleteMedicScheduleSlot(
         request: Request<{ rut: string; id: string }>,
         response: Response
@@ -1287,13 +1511,6 @@ export class MedicsEndpoint extends Endpoint {
             return;
         }
 
-        const token = this.getToken(request)!;
-
-        if (token.type === TokenType.MEDIC && token.rut !== rut) {
-            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid session token.");
-            return;
-        }
-
         const id = +request.params.id;
 
         if (isNaN(id) || id <= 0) {
@@ -1342,16 +1559,48 @@ export class MedicsEndpoint extends Endpoint {
         this.sendStatus(response, HTTPStatus.NO_CONTENT);
     }
 
-    @PostMethod("/:rut/session")
-    public async createSession(
-        request: Request<{ rut: string }, unknown, { password?: string }>,
-        response: Response<{ token: string }>
+    @PutMethod({
+        path: "/:rut/password",
+        permissions: ["passwords:write:own"],
+        owner: ownedBy(TokenType.MEDIC),
+        schema: {
+            tags: ["Medics"],
+            summary: "Change the medic's password. Revokes every other session of the medic.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("PasswordUpdate") },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Password successfully changed.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, missing current password or new password does not follow the "
+                    + "password policy.",
+                [HTTPStatus.UNAUTHORIZED]: "Session token is missing or invalid, or incorrect current password.",
+                [HTTPStatus.NOT_FOUND]: "Medic does not exist.",
+            },
+        },
+    })
+    public async updatePassword(
+        request: Request<{ rut: string }, unknown, PasswordUpdate>,
+        response: Response
     ): Promise<void> {
         const { rut } = request.params;
-        const { password } = request.body;
 
-        if (!password) {
-            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain password.");
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const token = this.getToken(request)!;
+
+        const { currentPassword, newPassword } = request.body;
+
+        if (!currentPassword || typeof currentPassword !== "string") {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain currentPassword.");
+            return;
+        }
+
+        if (!newPassword || typeof newPassword !== "string" || !isValidPassword(newPassword)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid newPassword.");
             return;
         }
 
@@ -1367,19 +1616,600 @@ export class MedicsEndpoint extends Endpoint {
             return;
         }
 
-        const encryptedPassword = createHash("sha512").update(password + medic.salt).digest("base64url");
+        const { valid } = await verifyPassword(currentPassword, medic);
 
-        if (encryptedPassword !== medic.password) {
+        if (!valid) {
             this.sendError(response, HTTPStatus.UNAUTHORIZED, "Incorrect password.");
             return;
         }
 
-        const token = await generateToken(rut, TokenType.MEDIC);
+        if (currentPassword === newPassword) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "New password must be different from the current one.");
+            return;
+        }
 
-        this.sendStatus(response, HTTPStatus.CREATED, { token });
+        await db
+            .updateTable("employee")
+            .set(await hashPassword(newPassword))
+            .where("rut", "=", rut)
+            .execute();
+
+        await revokeOtherTokens(rut, TokenType.MEDIC, token.token);
+
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
+
+    @PostMethod({
+        path: "/:rut/password-reset",
+        schema: {
+            tags: ["Medics"],
+            summary: "Send a single-use code to the medic's email, used to reset their password.",
+            description: "The response is the same whether the medic exists or not.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.ACCEPTED]: "Password reset requested. If the medic exists, the code has been sent to their "
+                    + "email.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut.",
+                [HTTPStatus.TOO_MANY_REQUESTS]: "Too many password reset codes have been requested recently.",
+            },
+        },
+    })
+    public async requestPasswordReset(request: Request<{ rut: string }>, response: Response): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const code = await createPasswordResetCode(rut, TokenType.MEDIC);
+
+        if (!code) {
+            this.sendError(response, HTTPStatus.TOO_MANY_REQUESTS, "Too many password reset requests, try again later.");
+            return;
+        }
+
+        const medic = await db
+            .selectFrom("employee")
+            .select("email")
+            .where("rut", "=", rut)
+            .where("type", "=", "medic")
+            .executeTakeFirst();
+
+        // same response whether the medic exists or not, so it can't be used to find out registered ruts
+        this.sendStatus(response, HTTPStatus.ACCEPTED);
+
+        if (medic) {
+            await sendEmail(
+                medic.email,
+                "Restablecer contraseña",
+                `Tu código para restablecer tu contraseña es ${code}. Expira en ${passwordResetCodeLifetime} minutos.\n\n`
+                + "Si no solicitaste este cambio, puedes ignorar este mensaje."
+            );
+        }
+    }
+
+    @PostMethod({
+        path: "/:rut/password-reset/confirm",
+        schema: {
+            tags: ["Medics"],
+            summary: "Reset the medic's password using the code sent to their email. Revokes all of the medic's sessions.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("PasswordResetConfirmation") },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Password successfully reset.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, missing code, invalid or expired code, or new password does not "
+                    + "follow the password policy.",
+            },
+        },
+    })
+    public async confirmPasswordReset(
+        request: Request<{ rut: string }, unknown, PasswordResetConfirmation>,
+        response: Response
+    ): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const { code, newPassword } = request.body;
+
+        if (!code || typeof code !== "string") {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain code.");
+            return;
+        }
+
+        if (!newPassword || typeof newPassword !== "string" || !isValidPassword(newPassword)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid newPassword.");
+            return;
+        }
+
+        const valid = await consumePasswordResetCode(rut, TokenType.MEDIC, code);
+
+        if (!valid) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid or expired code.");
+            return;
+        }
+
+        const updateResult = await db
+            .updateTable("employee")
+            .set(await hashPassword(newPassword))
+            .where("rut", "=", rut)
+            .where("type", "=", "medic")
+            .execute();
+
+        if (updateResult[0].numUpdatedRows === 0n) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid or expired code.");
+            return;
+        }
+
+        await revokeOtherTokens(rut, TokenType.MEDIC);
+        await clearFailedAttempts(rut, TokenType.MEDIC);
+
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
+
+    @DeleteMethod({
+        path: "/:rut/lockout",
+        permissions: ["lockouts:write:any"],
+        schema: {
+            tags: ["Medics"],
+            summary: "Unlock the medic's account, clearing their failed login attempts.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Account successfully unlocked.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut.",
+                [HTTPStatus.NOT_FOUND]: "The medic has no failed login attempts.",
+            },
+        },
+    })
+    public async unlockMedic(request: Request<{ rut: string }>, response: Response): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const unlocked = await clearFailedAttempts(rut, TokenType.MEDIC);
+
+        if (!unlocked) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Medic ${rut} has no failed login attempts.`);
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
+
+    @GetMethod({
+        path: "/:rut/2fa",
+        permissions: ["two-factor:read:own", "two-factor:read:any"],
+        owner: ownedBy(TokenType.MEDIC),
+        schema: {
+            tags: ["Medics"],
+            summary: "Get the medic's two-factor authentication status.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "The medic's two-factor authentication status.",
+                    schema: schemaRef("TwoFactorStatus"),
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut.",
+                [HTTPStatus.NOT_FOUND]: "Medic does not exist.",
+            },
+        },
+    })
+    public async getTwoFactorStatus(request: Request<{ rut: string }>, response: Response<TotpStatus>): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const medic = await db
+            .selectFrom("medic")
+            .select("rut")
+            .where("rut", "=", rut)
+            .executeTakeFirst();
+
+        if (!medic) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Medic ${rut} does not exist.`);
+            return;
+        }
+
+        const status = await getTotpStatus(rut);
+
+        this.sendOk(response, status);
+    }
+
+    @PostMethod({
+        path: "/:rut/2fa",
+        permissions: ["two-factor:write:own"],
+        owner: ownedBy(TokenType.MEDIC),
+        idempotent: false,
+        schema: {
+            tags: ["Medics"],
+            summary: "Start enrolling the medic in two-factor authentication, replacing any enrollment in progress.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.CREATED]: {
+                    description: "New secret generated, must be confirmed through /medics/{rut}/2fa/verify.",
+                    schema: schemaRef("TwoFactorEnrollment"),
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut.",
+                [HTTPStatus.CONFLICT]: "Two-factor authentication is already enabled.",
+            },
+        },
+    })
+    public async enrollTwoFactor(request: Request<{ rut: string }>, response: Response<TotpEnrollment>): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const enrollment = await startTotpEnrollment(rut);
+
+        if (!enrollment) {
+            this.sendError(response, HTTPStatus.CONFLICT, "Two-factor authentication is already enabled.");
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.CREATED, enrollment);
     }
 
-    @DeleteMethod({ path: "/:rut/session", requiresAuthorization: TokenType.MEDIC })
+    @PostMethod({
+        path: "/:rut/2fa/verify",
+        permissions: ["two-factor:write:own"],
+        owner: ownedBy(TokenType.MEDIC),
+        idempotent: false,
+        schema: {
+            tags: ["Medics"],
+            summary: "Confirm the medic's two-factor enrollment, enabling it and generating new recovery codes.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("TwoFactorCode") },
+            responses: {
+                [HTTPStatus.CREATED]: {
+                    description: "Two-factor authentication successfully enabled.",
+                    schema: schemaRef("RecoveryCodes"),
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, missing or invalid code, or no enrollment in progress.",
+                [HTTPStatus.CONFLICT]: "Two-factor authentication is already enabled.",
+            },
+        },
+    })
+    public async verifyTwoFactor(
+        request: Request<{ rut: string }, unknown, TwoFactorCode>,
+        response: Response<{ recoveryCodes: string[] }>
+    ): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const { code } = request.body;
+
+        if (!code || typeof code !== "string") {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain code.");
+            return;
+        }
+
+        const status = await getTotpStatus(rut);
+
+        if (status.enabled) {
+            this.sendError(response, HTTPStatus.CONFLICT, "Two-factor authentication is already enabled.");
+            return;
+        }
+
+        const recoveryCodes = await confirmTotpEnrollment(rut, code);
+
+        if (!recoveryCodes) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid code, or no two-factor enrollment in progress.");
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.CREATED, { recoveryCodes });
+    }
+
+    @DeleteMethod({
+        path: "/:rut/2fa",
+        permissions: ["two-factor:write:own", "two-factor:write:any"],
+        owner: ownedBy(TokenType.MEDIC),
+        schema: {
+            tags: ["Medics"],
+            summary: "Disable two-factor authentication for the medic.",
+            description: "The medic must provide a TOTP or recovery code, and can't disable it if it's required for them. "
+                + "Admins can disable it for other employees without a code.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("TwoFactorCode") },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Two-factor authentication successfully disabled.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut.",
+                [HTTPStatus.UNAUTHORIZED]: "Session token is missing, invalid or has expired, or the code is invalid.",
+                [HTTPStatus.FORBIDDEN]: "The session token does not have the required permissions, or two-factor "
+                    + "authentication is required for this medic.",
+                [HTTPStatus.NOT_FOUND]: "Medic does not exist, or does not have two-factor authentication enabled.",
+            },
+        },
+    })
+    public async disableTwoFactor(
+        request: Request<{ rut: string }, unknown, TwoFactorCode>,
+        response: Response
+    ): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const medic = await db
+            .selectFrom("medic")
+            .select("rut")
+            .where("rut", "=", rut)
+            .executeTakeFirst();
+
+        if (!medic) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Medic ${rut} does not exist.`);
+            return;
+        }
+
+        // admins may disable it for other employees without a code, e.g. when they lose their device
+        if (this.getToken(request)!.type === TokenType.MEDIC) {
+            const status = await getTotpStatus(rut);
+
+            if (status.required) {
+                this.sendError(response, HTTPStatus.FORBIDDEN, "Two-factor authentication is required for this account.");
+                return;
+            }
+
+            const { code } = request.body ?? {};
+
+            if (status.enabled && (typeof code !== "string" || !await verifySecondFactor(rut, code))) {
+                this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid two-factor code.");
+                return;
+            }
+        }
+
+        const disabled = await disableTotp(rut);
+
+        if (!disabled) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Medic ${rut} does not have two-factor authentication enabled.`);
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
+
+    @PutMethod({
+        path: "/:rut/2fa/required",
+        permissions: ["two-factor:enforce:any"],
+        schema: {
+            tags: ["Medics"],
+            summary: "Set whether the medic must use two-factor authentication. If not enrolled, they will be on their "
+                + "next login.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("TwoFactorRequirement") },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Requirement successfully updated.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, or invalid request body.",
+                [HTTPStatus.NOT_FOUND]: "Medic does not exist.",
+            },
+        },
+    })
+    public async setTwoFactorRequired(
+        request: Request<{ rut: string }, unknown, TwoFactorRequirement>,
+        response: Response
+    ): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const { required } = request.body;
+
+        if (typeof required !== "boolean") {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid required, must be a boolean.");
+            return;
+        }
+
+        const medic = await db
+            .selectFrom("medic")
+            .select("rut")
+            .where("rut", "=", rut)
+            .executeTakeFirst();
+
+        if (!medic) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Medic ${rut} does not exist.`);
+            return;
+        }
+
+        await setTotpRequired(rut, required);
+
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
+
+    @PostMethod({
+        path: "/:rut/session",
+        idempotent: false,
+        schema: {
+            tags: ["Medics"],
+            summary: "Generate a new session token for the selected medic.",
+            description: "If the medic has two-factor authentication enabled or required, a challenge is returned instead, "
+                + "which must be completed through /medics/{rut}/session/2fa.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            body: { description: "The medic's password.", schema: schemaRef("Password") },
+            responses: {
+                [HTTPStatus.CREATED]: {
+                    description: "Session token successfully generated.",
+                    schema: schemaRef("SessionToken"),
+                },
+                [HTTPStatus.ACCEPTED]: {
+                    description: "Password is correct, but a two-factor challenge must be completed.",
+                    schema: schemaRef("TwoFactorChallenge"),
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, or password missing in request body.",
+                [HTTPStatus.UNAUTHORIZED]: "Invalid credentials. The medic does not exist or the password is incorrect.",
+                [HTTPStatus.LOCKED]: {
+                    description: "The medic's account is temporarily locked due to too many failed login attempts.",
+                    schema: schemaRef("Error"),
+                    headers: {
+                        "Retry-After": {
+                            description: "Seconds until the account gets unlocked.",
+                            schema: { type: "integer" },
+                        },
+                    },
+                },
+                [HTTPStatus.TOO_MANY_REQUESTS]: {
+                    description: "Too many failed login attempts, either for this medic or from this IP address.",
+                    schema: schemaRef("Error"),
+                    headers: {
+                        "Retry-After": {
+                            description: "Seconds until a new attempt can be made.",
+                            schema: { type: "integer" },
+                        },
+                    },
+                },
+            },
+        },
+    })
+    public async createSession(
+        request: Request<{ rut: string }, unknown, { password?: string }>,
+        response: Response<{ token: string } | TwoFactorChallenge>
+    ): Promise<void> {
+        const { rut } = request.params;
+        const { password } = request.body;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        if (!password) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain password.");
+            return;
+        }
+
+        const result = await authenticate(rut, TokenType.MEDIC, password, this.getSessionMetadata(request));
+
+        if (!result.ok) {
+            if (result.retryAfter) {
+                response.setHeader("Retry-After", result.retryAfter);
+            }
+
+            this.sendError(response, result.status, result.message);
+            return;
+        }
+
+        if ("challenge" in result) {
+            this.sendStatus(response, HTTPStatus.ACCEPTED, {
+                challenge: result.challenge,
+                ...result.setup && { setup: result.setup },
+            });
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.CREATED, { token: result.token });
+    }
+
+    @PostMethod({
+        path: "/:rut/session/2fa",
+        idempotent: false,
+        schema: {
+            tags: ["Medics"],
+            summary: "Complete a two-factor challenge, generating a new session token for the medic.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("TwoFactorChallengeCompletion") },
+            responses: {
+                [HTTPStatus.CREATED]: {
+                    description: "Session token successfully generated.",
+                    schema: schemaRef("TwoFactorSessionToken"),
+                },
+                [HTTPStatus.BAD_REQUEST]: "Challenge or code missing in request body.",
+                [HTTPStatus.UNAUTHORIZED]: "Invalid or expired challenge, or invalid code.",
+                [HTTPStatus.LOCKED]: "The medic's account is temporarily locked due to too many failed login attempts.",
+                [HTTPStatus.TOO_MANY_REQUESTS]: "Too many failed login attempts, either for this medic or from this IP "
+                    + "address.",
+            },
+        },
+    })
+    public async completeTwoFactorChallenge(
+        request: Request<{ rut: string }, unknown, ChallengeCompletion>,
+        response: Response<{ token: string; recoveryCodes?: string[] }>
+    ): Promise<void> {
+        const { rut } = request.params;
+        const { challenge, code } = request.body;
+
+        if (!challenge || typeof challenge !== "string") {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain challenge.");
+            return;
+        }
+
+        if (!code || typeof code !== "string") {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain code.");
+            return;
+        }
+
+        const result = await completeChallenge(rut, TokenType.MEDIC, challenge, code, this.getSessionMetadata(request));
+
+        if (!result.ok) {
+            if (result.retryAfter) {
+                response.setHeader("Retry-After", result.retryAfter);
+            }
+
+            this.sendError(response, result.status, result.message);
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.CREATED, {
+            token: result.token,
+            ...result.recoveryCodes && { recoveryCodes: result.recoveryCodes },
+        });
+    }
+
+    @DeleteMethod({
+        path: "/:rut/session",
+        permissions: ["sessions:write:own"],
+        owner: ownedBy(TokenType.MEDIC),
+        schema: {
+            tags: ["Medics"],
+            summary: "Revoke the medic's session token.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Token successfully revoked.",
+            },
+        },
+    })
     public async expireSession(request: Request, response: Response): Promise<void> {
         const { token } = this.getToken(request)!;
 
@@ -1387,6 +2217,179 @@ export class MedicsEndpoint extends Endpoint {
 
         this.sendStatus(response, HTTPStatus.NO_CONTENT);
     }
+
+    @PostMethod({
+        path: "/:rut/session/refresh",
+        permissions: ["sessions:write:own"],
+        owner: ownedBy(TokenType.MEDIC),
+        idempotent: false,
+        schema: {
+            tags: ["Medics"],
+            summary: "Replace the medic's session token with a new one, resetting its expiration.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.CREATED]: {
+                    description: "Session token successfully rotated.",
+                    schema: schemaRef("SessionToken"),
+                },
+            },
+        },
+    })
+    public async refreshSession(request: Request<{ rut: string }>, response: Response<{ token: string }>): Promise<void> {
+        const oldToken = this.getToken(request)!;
+        const token = await rotateToken(oldToken.token);
+
+        if (!token) {
+            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Session token has expired.");
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.CREATED, { token });
+    }
+
+    @GetMethod({
+        path: "/:rut/sessions",
+        permissions: ["sessions:read:own"],
+        owner: ownedBy(TokenType.MEDIC),
+        schema: {
+            tags: ["Medics"],
+            summary: "Get a list of all of the medic's active sessions.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved the sessions list.",
+                    schema: { type: "array", items: schemaRef("Session") },
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut.",
+            },
+        },
+    })
+    public async getSessions(request: Request<{ rut: string }>, response: Response<Session[]>): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const token = this.getToken(request)!;
+
+        const sessions = await getSessions(rut, TokenType.MEDIC);
+
+        this.sendOk(response, sessions.map(session => ({
+            ...session,
+            current: session.id === token.id,
+        })));
+    }
+
+    @GetMethod({
+        path: "/:rut/login-history",
+        permissions: ["login-history:read:own", "login-history:read:any"],
+        owner: ownedBy(TokenType.MEDIC),
+        schema: {
+            tags: ["Medics"],
+            summary: "Get the medic's login attempts, both successful and failed. Medics can only get their own.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+            },
+            query: {
+                from: {
+                    description: "Only include attempts made at or after this date.",
+                    schema: { type: "string", format: "date-time" },
+                },
+                to: {
+                    description: "Only include attempts made at or before this date.",
+                    schema: { type: "string", format: "date-time" },
+                },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved login history, most recent attempts first.",
+                    schema: { type: "array", items: schemaRef("LoginAttempt") },
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, from or to.",
+            },
+        },
+    })
+    public async getLoginHistory(
+        request: Request<{ rut: string }, unknown, unknown, LoginHistoryQuery>,
+        response: Response<LoginAttempt[]>
+    ): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const range = parseDateRange(request.query.from, request.query.to);
+
+        if (!range) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid from or to date.");
+            return;
+        }
+
+        const history = await getLoginHistory({
+            rut,
+            type: TokenType.MEDIC,
+            ...range,
+        });
+
+        this.sendOk(response, history);
+    }
+
+    @DeleteMethod({
+        path: "/:rut/sessions/:id",
+        permissions: ["sessions:write:own"],
+        owner: ownedBy(TokenType.MEDIC),
+        schema: {
+            tags: ["Medics"],
+            summary: "Revoke one of the medic's sessions.",
+            params: {
+                rut: { description: "The medic's rut.", schema: schemaRef("Rut") },
+                id: { description: "The session's id.", schema: { type: "string" } },
+            },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Session successfully revoked.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut or session id.",
+                [HTTPStatus.NOT_FOUND]: "Session does not exist.",
+            },
+        },
+    })
+    public async deleteSession(request: Request<{ rut: string; id: string }>, response: Response): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const id = await new Promise<bigint | null>(resolve => {
+            try {
+                resolve(BigInt(request.params.id));
+            } catch (_) {
+                resolve(null);
+            }
+        });
+
+        if (!id || id <= 0n) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid session id.");
+            return;
+        }
+
+        const revoked = await revokeSession(id.toString() as BigIntString, rut, TokenType.MEDIC);
+
+        if (!revoked) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Session ${id} for medic ${rut} does not exist.`);
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
 }
 
 type Medic = {
@@ -1404,7 +2407,7 @@ type MedicUpdate = Partial<SnakeToCamelRecord<Omit<Employee,
     | "type"
     | "password"
     | "salt"
-    | "session_token"
+    | "updated_at"
 >>> & {
     specialtyId?: number;
 };
@@ -1441,8 +2444,45 @@ type ScheduleSlot = Omit<TimeSlot, "schedule_id"> & {
     appointments: ScheduleSlotAppointment[];
 };
 
-type ScheduleSlotAppointment = SnakeToCamelRecord<Omit<DBAppointment, "time_slot_id">>;
+type ScheduleSlotAppointment = SnakeToCamelRecord<Omit<DBAppointment, "time_slot_id" | "updated_at">>;
 
 type NewScheduleSlot = Omit<ScheduleSlot, "active" | "appointments" | "id">;
 
 type ScheduleSlotUpdate = Partial<NewScheduleSlot>;
+
+type Session = SessionInfo & {
+    current: boolean;
+};
+
+type PasswordUpdate = {
+    currentPassword?: string;
+    newPassword?: string;
+};
+
+type PasswordResetConfirmation = {
+    code?: string;
+    newPassword?: string;
+};
+
+type TwoFactorCode = {
+    code?: string;
+};
+
+type TwoFactorRequirement = {
+    required?: boolean;
+};
+
+type TwoFactorChallenge = {
+    challenge: string;
+    setup?: TotpEnrollment;
+};
+
+type ChallengeCompletion = {
+    challenge?: string;
+    code?: string;
+};
+
+type LoginHistoryQuery = {
+    from?: string;
+    to?: string;
+};
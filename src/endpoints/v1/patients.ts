@@ -1,22 +1,49 @@
-import { createHash } from "crypto";
 import { Request, Response } from "express";
 import { sql } from "kysely";
+import { authenticate, clearFailedAttempts } from "../../auth";
 import {
     BigIntString,
     db,
     hashPassword,
-    isValidEmail,
-    isValidPhone,
+    isValidPassword,
     isValidRut,
     NewPatient,
     Patient,
     TimeSlot,
+    verifyPassword,
 } from "../../db";
 import { sendEmail } from "../../email/sender";
-import { generateToken, revokeToken, TokenType } from "../../tokens";
+import {
+    isEmailVerificationRequired,
+    sendEmailVerification,
+    verifyEmailVerificationToken,
+} from "../../emailVerification";
+import {
+    generateToken,
+    getSessions,
+    revokeOtherTokens,
+    revokeSession,
+    revokeToken,
+    rotateToken,
+    SessionInfo,
+    TokenType,
+} from "../../tokens";
+import { getLoginHistory, LoginAttempt, parseDateRange, recordLoginAttempt } from "../../loginHistory";
+import { consumePasswordResetCode, createPasswordResetCode, passwordResetCodeLifetime } from "../../passwordResets";
+import { loadMedics, loadMedicSpecialties } from "../../relations";
 import { MapNullToUndefined, SnakeToCamelRecord } from "../../types";
-import { DeleteMethod, Endpoint, GetMethod, HTTPStatus, PatchMethod, PostMethod } from "../base";
-import { Validator } from "../validator";
+import {
+    DeleteMethod,
+    Endpoint,
+    GetMethod,
+    HTTPStatus,
+    ownedBy,
+    PatchMethod,
+    PostMethod,
+    PutMethod,
+    schemaRef,
+} from "../base";
+import { field, Validator } from "../validator";
 
 export class PatientsEndpoint extends Endpoint {
     private readonly newPatientValidator: Validator<PatientBody>;
@@ -32,401 +59,112 @@ export class PatientsEndpoint extends Endpoint {
 
         const days = ["su", "mo", "tu", "we", "th", "fr", "sa"] as const;
 
-        this.newPatientValidator = new Validator<PatientBody>({
-            firstName: {
-                required: true,
-                validate: (value, key) => {
-                    const valid = !!value && typeof value === "string";
-                    return valid ? {
-                        ok: true,
-                    } : {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                },
-            },
-            secondName: (value, key) => {
-                const valid = !value || typeof value === "string";
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            firstLastName: {
-                required: true,
-                validate: (value, key) => {
-                    const valid = !!value && typeof value === "string";
-                    return valid ? {
-                        ok: true,
-                    } : {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                },
-            },
-            secondLastName: (value, key) => {
-                const valid = !value || typeof value === "string";
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            email: {
-                required: true,
-                validate: async (value, key) => {
-                    const valid = !!value && typeof value === "string" && isValidEmail(value);
-
-                    if (!valid) {
-                        return {
-                            ok: false,
-                            status: HTTPStatus.BAD_REQUEST,
-                            message: `Invalid ${key}.`,
-                        };
-                    }
-
-                    const patient = await db
-                        .selectFrom("patient")
-                        .select("rut")
-                        .where("email", "=", value)
-                        .executeTakeFirst();
-
-                    return !patient ? {
-                        ok: true,
-                    } : {
-                        ok: false,
-                        status: HTTPStatus.CONFLICT,
-                        message: `A patient with ${key} ${value} already exists.`,
-                    };
-                },
-            },
-            phone: {
-                required: true,
-                validate: async (value, key) => {
-                    const valid = !!value && typeof value === "number" && isValidPhone(value);
-
-                    if (!valid) {
-                        return {
-                            ok: false,
-                            status: HTTPStatus.BAD_REQUEST,
-                            message: `Invalid ${key}.`,
-                        };
-                    }
-
-                    const patient = await db
-                        .selectFrom("patient")
-                        .select("rut")
-                        .where("phone", "=", value)
-                        .executeTakeFirst();
-
-                    return !patient ? {
-                        ok: true,
-                    } : {
-                        ok: false,
-                        status: HTTPStatus.CONFLICT,
-                        message: `A patient with ${key} ${value} already exists.`,
-                    };
-                },
-            },
-            birthDate: {
-                required: true,
-                validate: (value, key) => {
-                    const valid = !!value
-                        && typeof value === "string"
-                        && /^\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[1-2][0-9]|3[0-1])$/.test(value);
-                    return valid ? {
-                        ok: true,
-                    } : {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                },
-            },
-            gender: {
-                required: true,
-                validate: (value, key) => {
-                    const valid = !!value && typeof value === "string";
-                    return valid ? {
-                        ok: true,
-                    } : {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                },
-            },
-            weight: (value, key) => {
-                const valid = !value || (typeof value === "number" && value > 0);
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            height: (value, key) => {
-                const valid = !value || (typeof value === "number" && value > 0);
-                return valid ? {
+        const patientFields = {
+            firstName: field.string({ min: 1 }),
+            secondName: field.string().orEmpty(),
+            firstLastName: field.string({ min: 1 }),
+            secondLastName: field.string().orEmpty(),
+            email: field.email().check(async (value, key) => {
+                const patient = await db
+                    .selectFrom("patient")
+                    .select("rut")
+                    .where("email", "=", value)
+                    .executeTakeFirst();
+
+                return !patient ? {
                     ok: true,
                 } : {
                     ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
+                    status: HTTPStatus.CONFLICT,
+                    message: `A patient with ${key} ${value} already exists.`,
                 };
-            },
-            rhesusFactor: (value, key) => {
-                const valid = !value || (typeof value === "string" && ["+", "-"].includes(value));
-                return valid ? {
+            }),
+            phone: field.phone().check(async (value, key) => {
+                const patient = await db
+                    .selectFrom("patient")
+                    .select("rut")
+                    .where("phone", "=", value)
+                    .executeTakeFirst();
+
+                return !patient ? {
                     ok: true,
                 } : {
                     ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
+                    status: HTTPStatus.CONFLICT,
+                    message: `A patient with ${key} ${value} already exists.`,
                 };
-            },
-            bloodTypeId: async (value, key) => {
-                if (!value) {
-                    return {
-                        ok: true,
-                    };
-                }
-
-                if (typeof value !== "number" || value <= 0) {
-                    return {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                }
-
+            }),
+            birthDate: field.date(),
+            gender: field.string({ min: 1 }),
+            weight: field.number().check(value => value > 0).orEmpty(),
+            height: field.number().check(value => value > 0).orEmpty(),
+            rhesusFactor: field.enum(["+", "-"]).orEmpty(),
+            bloodTypeId: field.integer({ min: 1 }).check(async (value) => {
                 const bloodType = await db
                     .selectFrom("blood_type")
                     .select("id")
                     .where("id", "=", value)
                     .executeTakeFirst();
 
-                return bloodType ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            insuranceTypeId: {
-                required: true,
-                validate: async (value, key) => {
-                    if (!(value && typeof value === "number" && value > 0)) {
-                        return {
-                            ok: false,
-                            status: HTTPStatus.BAD_REQUEST,
-                            message: `Invalid ${key}.`,
-                        };
-                    }
-
-                    const insuranceType = await db
-                        .selectFrom("insurance_type")
-                        .select("id")
-                        .where("id", "=", value)
-                        .executeTakeFirst();
-
-                    return insuranceType ? {
-                        ok: true,
-                    } : {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                },
-            },
-            allergiesHistory: (value, key) => {
-                const valid = !value || typeof value === "string";
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            morbidityHistory: (value, key) => {
-                const valid = !value || typeof value === "string";
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            surgicalHistory: (value, key) => {
-                const valid = !value || typeof value === "string";
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            medications: (value, key) => {
-                const valid = !value || typeof value === "string";
-                return valid ? {
-                    ok: true,
-                } : {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Invalid ${key}.`,
-                };
-            },
-            password: {
-                required: true,
-                validate: (value, key) => {
-                    const valid = !!value && typeof value === "string" && value.length >= 8;
-                    return valid ? {
-                        ok: true,
-                    } : {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                },
-            },
+                return !!bloodType;
+            }).orEmpty(),
+            insuranceTypeId: field.integer({ min: 1 }).check(async (value) => {
+                const insuranceType = await db
+                    .selectFrom("insurance_type")
+                    .select("id")
+                    .where("id", "=", value)
+                    .executeTakeFirst();
+
+                return !!insuranceType;
+            }),
+            allergiesHistory: field.string().orEmpty(),
+            morbidityHistory: field.string().orEmpty(),
+            surgicalHistory: field.string().orEmpty(),
+            medications: field.string().orEmpty(),
+        };
+
+        this.newPatientValidator = new Validator<PatientBody>({
+            ...patientFields,
+            password: field.string().check(isValidPassword),
         });
 
         this.patientUpdateValidator = new Validator<PatientUpdateBody>({
-            firstName: (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newPatientValidator.validators[key].validate(value, key);
-            },
-            secondName: this.newPatientValidator.validators.secondName,
-            firstLastName: (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newPatientValidator.validators[key].validate(value, key);
-            },
-            secondLastName: this.newPatientValidator.validators.secondLastName,
-            email: async (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newPatientValidator.validators[key].validate(value, key);
-            },
-            phone: async (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newPatientValidator.validators[key].validate(value, key);
-            },
-            birthDate: (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newPatientValidator.validators[key].validate(value, key);
-            },
-            gender: (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newPatientValidator.validators[key].validate(value, key);
-            },
-            weight: (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newPatientValidator.validators[key].validate(value, key);
-            },
-            height: (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newPatientValidator.validators[key].validate(value, key);
-            },
-            rhesusFactor: (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newPatientValidator.validators[key].validate(value, key);
-            },
-            bloodTypeId: async (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newPatientValidator.validators[key].validate(value, key);
-            },
-            insuranceTypeId: async (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newPatientValidator.validators[key].validate(value, key);
-            },
-            allergiesHistory: this.newPatientValidator.validators.allergiesHistory,
-            morbidityHistory: this.newPatientValidator.validators.morbidityHistory,
-            surgicalHistory: this.newPatientValidator.validators.surgicalHistory,
-            medications: this.newPatientValidator.validators.medications,
+            firstName: patientFields.firstName.optional(),
+            secondName: patientFields.secondName,
+            firstLastName: patientFields.firstLastName.optional(),
+            secondLastName: patientFields.secondLastName,
+            email: patientFields.email.optional(),
+            phone: patientFields.phone.optional(),
+            birthDate: patientFields.birthDate.optional(),
+            gender: patientFields.gender.optional(),
+            weight: patientFields.weight,
+            height: patientFields.height,
+            rhesusFactor: patientFields.rhesusFactor,
+            bloodTypeId: patientFields.bloodTypeId,
+            insuranceTypeId: patientFields.insuranceTypeId.optional(),
+            allergiesHistory: patientFields.allergiesHistory,
+            morbidityHistory: patientFields.morbidityHistory,
+            surgicalHistory: patientFields.surgicalHistory,
+            medications: patientFields.medications,
         });
 
+        const appointmentFields = {
+            date: field.date({ allowPast: false }),
+            description: field.string({ min: 1 }),
+            timeSlotId: field.integer({ min: 1 }).check(async (value) => {
+                const timeSlot = await db
+                    .selectFrom("time_slot")
+                    .select("id")
+                    .where("id", "=", value)
+                    .where("active", "=", true)
+                    .executeTakeFirst();
+
+                return !!timeSlot;
+            }),
+        };
+
         this.newAppointmentValidator = new Validator<NewAppointment, [patientRut: string]>({
-            date: {
-                required: true,
-                validate: (value, key) => {
-                    const today = new Date(new Date().toLocaleDateString("es-CL").split("-").reverse().join("-")).getTime();
-
-                    const valid = !!value
-                        && typeof value === "string"
-                        && /^\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[1-2][0-9]|3[0-1])$/.test(value)
-                        && new Date(value).getTime() >= today;
-
-                    return valid ? {
-                        ok: true,
-                    } : {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                },
-            },
-            description: {
-                required: true,
-                validate: (value, key) => {
-                    const valid = !!value && typeof value === "string";
-                    return valid ? {
-                        ok: true,
-                    } : {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                },
-            },
-            timeSlotId: {
-                required: true,
-                validate: async (value, key) => {
-                    if (!(value && typeof value === "number" && value > 0)) {
-                        return {
-                            ok: false,
-                            status: HTTPStatus.BAD_REQUEST,
-                            message: `Invalid ${key}.`,
-                        };
-                    }
-
-                    const timeSlot = await db
-                        .selectFrom("time_slot")
-                        .select("id")
-                        .where("id", "=", value)
-                        .where("active", "=", true)
-                        .executeTakeFirst();
-
-                    return timeSlot ? {
-                        ok: true,
-                    } : {
-                        ok: false,
-                        status: HTTPStatus.BAD_REQUEST,
-                        message: `Invalid ${key}.`,
-                    };
-                },
-            },
+            ...appointmentFields,
         }, async ({ date, timeSlotId }, patientRut) => {
             const day = days[new Date(date).getUTCDay()];
 
@@ -505,21 +243,9 @@ export class PatientsEndpoint extends Endpoint {
             oldAppointment: Required<AppointmentUpdate>,
             patientRut: string,
         ]>({
-            date: (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newAppointmentValidator.validators[key].validate(value, key);
-            },
-            description: (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newAppointmentValidator.validators[key].validate(value, key);
-            },
-            timeSlotId: (value, key) => {
-                return typeof value === "undefined" ? {
-                    ok: true,
-                } : this.newAppointmentValidator.validators[key].validate(value, key);
-            },
+            date: appointmentFields.date.optional(),
+            description: appointmentFields.description.optional(),
+            timeSlotId: appointmentFields.timeSlotId.optional(),
             confirmed: (value, key) => {
                 const valid = typeof value === "undefined" || (typeof value === "boolean" && value);
                 return valid ? {
@@ -568,7 +294,55 @@ export class PatientsEndpoint extends Endpoint {
         });
     }
 
-    @GetMethod({ path: "/:rut", requiresAuthorization: true })
+    @GetMethod({
+        path: "/:rut",
+        permissions: ["patients:read:own", "patients:read:any"],
+        owner: ownedBy(TokenType.PATIENT),
+        fields: {
+            select: [
+                "firstName",
+                "secondName",
+                "firstLastName",
+                "secondLastName",
+                "email",
+                "emailVerified",
+                "phone",
+                "birthDate",
+                "gender",
+                "weight",
+                "height",
+                "rhesusFactor",
+                "bloodType",
+                "insuranceType",
+                "allergiesHistory",
+                "morbidityHistory",
+                "surgicalHistory",
+                "medications",
+            ],
+        },
+        schema: {
+            tags: ["Patients"],
+            summary: "Get a patient's information. Patients can only access their own information.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+            },
+            headers: {
+                "If-None-Match": { description: "ETag of the cached information.", schema: { type: "string" } },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved the patient's information.",
+                    schema: schemaRef("Patient"),
+                    headers: {
+                        ETag: { description: "Version of the patient's information.", schema: { type: "string" } },
+                    },
+                },
+                [HTTPStatus.NOT_MODIFIED]: "The patient's information has not changed since the cached version.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, or invalid fields.",
+                [HTTPStatus.NOT_FOUND]: "Patient does not exist.",
+            },
+        },
+    })
     public async getPatient(request: Request<{ rut: string }>, response: Response<PatientResponse>): Promise<void> {
         const { rut } = request.params;
 
@@ -577,13 +351,6 @@ export class PatientsEndpoint extends Endpoint {
             return;
         }
 
-        const token = this.getToken(request)!;
-
-        if (token.type === TokenType.PATIENT && token.rut !== rut) {
-            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid session token.");
-            return;
-        }
-
         const patient = await db
             .selectFrom("patient as p")
             .leftJoin("blood_type as bt", "bt.id", "p.blood_type_id")
@@ -594,6 +361,7 @@ export class PatientsEndpoint extends Endpoint {
                 "p.first_last_name as firstLastName",
                 "p.second_last_name as secondLastName",
                 "p.email",
+                "p.email_verified as emailVerified",
                 "p.phone",
                 "p.birth_date as birthDate",
                 "p.gender",
@@ -606,6 +374,7 @@ export class PatientsEndpoint extends Endpoint {
                 "p.morbidity_history as morbidityHistory",
                 "p.surgical_history as surgicalHistory",
                 "p.medications",
+                "p.updated_at as updatedAt",
             ])
             .where("p.rut", "=", rut)
             .executeTakeFirst();
@@ -621,6 +390,7 @@ export class PatientsEndpoint extends Endpoint {
             firstLastName: patient.firstLastName,
             ...patient.secondLastName && { secondLastName: patient.secondLastName },
             email: patient.email,
+            emailVerified: patient.emailVerified,
             phone: patient.phone,
             birthDate: patient.birthDate,
             gender: patient.gender,
@@ -635,10 +405,27 @@ export class PatientsEndpoint extends Endpoint {
             ...patient.medications && { medications: patient.medications },
         };
 
-        this.sendOk(response, result);
+        await this.sendResource(request, response, result, patient.updatedAt);
     }
 
-    @PostMethod("/:rut")
+    @PostMethod({
+        path: "/:rut",
+        rateLimit: { window: 3600, max: 10 },
+        idempotent: false,
+        schema: {
+            tags: ["Patients"],
+            summary: "Register a new patient.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("NewPatient") },
+            responses: {
+                [HTTPStatus.CREATED]: "Successfully registered patient.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut or patient data.",
+                [HTTPStatus.CONFLICT]: "Patient with that rut, email or phone already exists.",
+            },
+        },
+    })
     public async createPatient(
         request: Request<{ rut: string }, unknown, PatientBody>,
         response: Response<{ token: string }>
@@ -685,7 +472,7 @@ export class PatientsEndpoint extends Endpoint {
             password,
         } = validationResult.value;
 
-        const hashedPassword = hashPassword(password);
+        const hashedPassword = await hashPassword(password);
 
         await db
             .insertInto("patient")
@@ -708,14 +495,47 @@ export class PatientsEndpoint extends Endpoint {
             })
             .execute();
 
-        const token = await generateToken(rut, TokenType.PATIENT);
+        const metadata = this.getSessionMetadata(request);
+
+        await recordLoginAttempt(rut, TokenType.PATIENT, metadata, null);
+
+        const token = await generateToken(rut, TokenType.PATIENT, metadata);
 
         this.sendStatus(response, HTTPStatus.CREATED, { token });
 
         await sendEmail(email, "Gracias por registrarte en nuestra clínica!", "Prometemos dar el mejor servicio posible.");
+        await sendEmailVerification(rut, email);
     }
 
-    @PatchMethod({ path: "/:rut", requiresAuthorization: true })
+    @PatchMethod({
+        path: "/:rut",
+        permissions: ["patients:write:own", "patients:write:any"],
+        owner: ownedBy(TokenType.PATIENT),
+        schema: {
+            tags: ["Patients"],
+            summary: "Update a patient's data. Patients can only update their own information.",
+            description: "Changing the email marks it as unverified and sends a new verification token to it.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("PatientUpdate") },
+            headers: {
+                "If-Match": {
+                    description: "ETag of the patient as last read. The request is rejected if it has changed since.",
+                    schema: { type: "string" },
+                },
+            },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Successfully updated patient.",
+                [HTTPStatus.NOT_MODIFIED]: "Patient was not modified.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut or patient data.",
+                [HTTPStatus.NOT_FOUND]: "Patient does not exist.",
+                [HTTPStatus.CONFLICT]: "Patient with that email or phone already exists.",
+                [HTTPStatus.PRECONDITION_FAILED]: "Patient has been modified since it was read.",
+                [HTTPStatus.PRECONDITION_REQUIRED]: "If-Match header is missing and the server requires it.",
+            },
+        },
+    })
     public async updatePatient(
         request: Request<{ rut: string }, unknown, PatientUpdateBody>,
         response: Response
@@ -727,16 +547,9 @@ export class PatientsEndpoint extends Endpoint {
             return;
         }
 
-        const token = this.getToken(request)!;
-
-        if (token.type === TokenType.PATIENT && token.rut !== rut) {
-            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid session token.");
-            return;
-        }
-
         const registeredPatient = await db
             .selectFrom("patient")
-            .select("rut")
+            .select(["email", "updated_at as updatedAt"])
             .where("rut", "=", rut)
             .executeTakeFirst();
 
@@ -745,6 +558,16 @@ export class PatientsEndpoint extends Endpoint {
             return;
         }
 
+        if (!this.checkIfMatch(request, response, registeredPatient.updatedAt)) {
+            return;
+        }
+
+        // the email is where password reset codes are sent to
+        if (typeof request.body.email !== "undefined" && this.getToken(request)?.impersonationId) {
+            this.sendError(response, HTTPStatus.FORBIDDEN, "Email cannot be changed while impersonating.");
+            return;
+        }
+
         const validationResult = await this.patientUpdateValidator.validate(request.body);
 
         if (!validationResult.ok) {
@@ -773,6 +596,8 @@ export class PatientsEndpoint extends Endpoint {
             insuranceTypeId,
         } = validationResult.value;
 
+        const emailChanged = !!email && email !== registeredPatient.email;
+
         const updateResult = await db
             .updateTable("patient")
             .set({
@@ -781,6 +606,7 @@ export class PatientsEndpoint extends Endpoint {
                 first_last_name: firstLastName,
                 second_last_name: secondLastName || undefined,
                 email,
+                ...emailChanged && { email_verified: false },
                 phone,
                 birth_date: birthDate,
                 gender,
@@ -791,18 +617,47 @@ export class PatientsEndpoint extends Endpoint {
                 insurance_type_id: insuranceTypeId,
             })
             .where("rut", "=", rut)
+            .$if(this.isConditional(request), qb => qb.where("updated_at", "=", registeredPatient.updatedAt))
             .execute();
 
+        if (updateResult[0].numUpdatedRows === 0n) {
+            this.sendModifiedSinceRead(response);
+            return;
+        }
+
         if (updateResult[0].numChangedRows === 0n) {
             this.sendStatus(response, HTTPStatus.NOT_MODIFIED);
             return;
         }
 
         this.sendStatus(response, HTTPStatus.NO_CONTENT);
+
+        if (emailChanged) {
+            await sendEmailVerification(rut, email);
+        }
     }
 
-    @GetMethod({ path: "/:rut/appointments", requiresAuthorization: true })
-    public async getAppointments(request: Request<{ rut: string }>, response: Response<Appointment[]>): Promise<void> {
+    @PostMethod({
+        path: "/:rut/email-verification",
+        permissions: ["patients:write:own", "patients:write:any"],
+        owner: ownedBy(TokenType.PATIENT),
+        rateLimit: { window: 3600, max: 5, keyBy: "rut" },
+        schema: {
+            tags: ["Patients"],
+            summary: "Send a new verification token to the patient's email. Patients can only request their own.",
+            description: "Verification tokens are also sent when the patient registers or changes their email.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.ACCEPTED]: "Verification token successfully requested.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut.",
+                [HTTPStatus.NOT_FOUND]: "Patient does not exist.",
+                [HTTPStatus.CONFLICT]: "The patient has already verified their email.",
+            },
+        },
+    })
+    public async resendEmailVerification(request: Request<{ rut: string }>, response: Response): Promise<void> {
         const { rut } = request.params;
 
         if (!isValidRut(rut)) {
@@ -810,10 +665,126 @@ export class PatientsEndpoint extends Endpoint {
             return;
         }
 
-        const token = this.getToken(request)!;
+        const patient = await db
+            .selectFrom("patient")
+            .select(["email", "email_verified as emailVerified"])
+            .where("rut", "=", rut)
+            .executeTakeFirst();
+
+        if (!patient) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Patient ${rut} does not exist.`);
+            return;
+        }
+
+        if (patient.emailVerified) {
+            this.sendError(response, HTTPStatus.CONFLICT, `Patient ${rut} has already verified their email.`);
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.ACCEPTED);
+
+        await sendEmailVerification(rut, patient.email);
+    }
+
+    @PostMethod({
+        path: "/:rut/email-verification/confirm",
+        schema: {
+            tags: ["Patients"],
+            summary: "Verify the patient's email using the token sent to it.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("EmailVerificationConfirmation") },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Email successfully verified.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, missing token, or invalid or expired token.",
+            },
+        },
+    })
+    public async confirmEmailVerification(
+        request: Request<{ rut: string }, unknown, EmailVerificationConfirmation>,
+        response: Response
+    ): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const { token } = request.body;
+
+        if (!token || typeof token !== "string") {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain token.");
+            return;
+        }
+
+        const email = verifyEmailVerificationToken(rut, token);
+
+        if (!email) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid or expired token.");
+            return;
+        }
+
+        // the token only verifies the email it was issued for, so it stops working if the patient changed it since
+        const updateResult = await db
+            .updateTable("patient")
+            .set("email_verified", true)
+            .where("rut", "=", rut)
+            .where("email", "=", email)
+            .executeTakeFirst();
+
+        if (updateResult.numUpdatedRows === 0n) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid or expired token.");
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
+
+    @GetMethod({
+        path: "/:rut/appointments",
+        permissions: ["patients:read:own", "patients:read:any"],
+        owner: ownedBy(TokenType.PATIENT),
+        fields: {
+            select: ["id", "medicRut", "date", "day", "start", "end", "description", "confirmed"],
+            include: {
+                medic: { key: "medicRut", load: loadMedics, schema: schemaRef("Medic") },
+                specialty: { key: "medicRut", load: loadMedicSpecialties, schema: schemaRef("Specialty") },
+            },
+        },
+        schema: {
+            tags: ["Patients", "Appointments"],
+            summary: "Get a list of the patient's future appointments. A patient can only get their own.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved the patient's appointments.",
+                    schema: {
+                        type: "array",
+                        items: {
+                            allOf: [
+                                schemaRef("Appointment"),
+                                { type: "object", required: ["medicRut"], properties: { medicRut: schemaRef("Rut") } },
+                            ],
+                        },
+                    },
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, or invalid fields or include.",
+                [HTTPStatus.NOT_FOUND]: "Patient does not exist.",
+            },
+        },
+    })
+    public async getAppointments(
+        request: Request<{ rut: string }>,
+        response: Response<Array<Partial<Appointment>>>
+    ): Promise<void> {
+        const { rut } = request.params;
 
-        if (token.type === TokenType.PATIENT && token.rut !== rut) {
-            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid session token.");
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
             return;
         }
 
@@ -849,13 +820,52 @@ export class PatientsEndpoint extends Endpoint {
             ]))
             .execute();
 
-        this.sendOk(response, appointments);
+        this.sendOk(response, await this.selectFields(request, appointments));
     }
 
-    @PostMethod({ path: "/:rut/appointments", requiresAuthorization: true })
-    public async createAppointment(
-        request: Request<{ rut: string }, unknown, NewAppointment>,
-        response: Response
+    @GetMethod({
+        path: "/:rut/appointments/:id",
+        permissions: ["patients:read:own", "patients:read:any"],
+        owner: ownedBy(TokenType.PATIENT),
+        fields: {
+            select: ["id", "medicRut", "date", "day", "start", "end", "description", "confirmed"],
+            include: {
+                medic: { key: "medicRut", load: loadMedics, schema: schemaRef("Medic") },
+                specialty: { key: "medicRut", load: loadMedicSpecialties, schema: schemaRef("Specialty") },
+            },
+        },
+        schema: {
+            tags: ["Patients", "Appointments"],
+            summary: "Get one of the patient's appointments. A patient can only get their own.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+                id: { description: "The appointment's id.", schema: { type: "number", minimum: 1 } },
+            },
+            headers: {
+                "If-None-Match": { description: "ETag of the cached appointment.", schema: { type: "string" } },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved the appointment.",
+                    schema: {
+                        allOf: [
+                            schemaRef("Appointment"),
+                            { type: "object", required: ["medicRut"], properties: { medicRut: schemaRef("Rut") } },
+                        ],
+                    },
+                    headers: {
+                        ETag: { description: "Version of the appointment.", schema: { type: "string" } },
+                    },
+                },
+                [HTTPStatus.NOT_MODIFIED]: "The appointment has not changed since the cached version.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut or id, or invalid fields or include.",
+                [HTTPStatus.NOT_FOUND]: "Patient or appointment do not exist.",
+            },
+        },
+    })
+    public async getAppointment(
+        request: Request<{ rut: string; id: string }>,
+        response: Response<Appointment>
     ): Promise<void> {
         const { rut } = request.params;
 
@@ -864,24 +874,22 @@ export class PatientsEndpoint extends Endpoint {
             return;
         }
 
-        const token = this.getToken(request)!;
+        const id = await new Promise<bigint | null>(resolve => {
+            try {
+                resolve(BigInt(request.params.id));
+            } catch (_) {
+                resolve(null);
+            }
+        });
 
-        if (token.type === TokenType.PATIENT && token.rut !== rut) {
-            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid session token.");
+        if (!id || id <= 0n) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid appointment id.");
             return;
         }
 
         const patient = await db
             .selectFrom("patient")
-            .select(({ ref }) => [
-                "email",
-                sql<string>`concat(
-                    ${ref("first_name")}, " ",
-                    ifnull(concat(${ref("second_name")}, " "), ""),
-                    ${ref("first_last_name")},
-                    ifnull(concat(" ", ${ref("second_last_name")}), "")
-                )`.as("fullName"),
-            ])
+            .select("rut")
             .where("rut", "=", rut)
             .executeTakeFirst();
 
@@ -890,16 +898,102 @@ export class PatientsEndpoint extends Endpoint {
             return;
         }
 
-        const validationResult = await this.newAppointmentValidator.validate(request.body, rut);
-
-        if (!validationResult.ok) {
-            this.sendError(response, validationResult.status, validationResult.message);
-            return;
-        }
-
-        const { date, description, timeSlotId } = validationResult.value;
-
-        const timeSlot = await db
+        const appointment = await db
+            .selectFrom("appointment as a")
+            .innerJoin("time_slot as t", "t.id", "a.time_slot_id")
+            .innerJoin("medic as m", "m.schedule_id", "t.schedule_id")
+            .select([
+                "a.id",
+                "m.rut as medicRut",
+                "a.date",
+                "t.day",
+                "t.start",
+                "t.end",
+                "a.description",
+                "a.confirmed",
+                "a.updated_at as updatedAt",
+            ])
+            .where("a.id", "=", id.toString() as BigIntString)
+            .where("a.patient_rut", "=", rut)
+            .executeTakeFirst();
+
+        if (!appointment) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Appointment ${id} for patient ${rut} does not exist.`);
+            return;
+        }
+
+        const { updatedAt, ...appointmentInfo } = appointment;
+
+        await this.sendResource(request, response, appointmentInfo, updatedAt);
+    }
+
+    @PostMethod({
+        path: "/:rut/appointments",
+        permissions: ["patients:write:own", "patients:write:any"],
+        owner: ownedBy(TokenType.PATIENT),
+        schema: {
+            tags: ["Patients", "Appointments"],
+            summary: "Create a new appointment for the patient. Patients can only create appointments for themselves.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("NewAppointment") },
+            responses: {
+                [HTTPStatus.CREATED]: "Successfully created new appointment.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut or request body.",
+                [HTTPStatus.FORBIDDEN]: "Insufficient permissions, or the patient has not verified their email yet.",
+                [HTTPStatus.NOT_FOUND]: "Patient does not exist.",
+                [HTTPStatus.CONFLICT]: "Request body creates conflicts with existing data.",
+            },
+        },
+    })
+    public async createAppointment(
+        request: Request<{ rut: string }, unknown, NewAppointment>,
+        response: Response
+    ): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const patient = await db
+            .selectFrom("patient")
+            .select(({ ref }) => [
+                "email",
+                "email_verified as emailVerified",
+                sql<string>`concat(
+                    ${ref("first_name")}, " ",
+                    ifnull(concat(${ref("second_name")}, " "), ""),
+                    ${ref("first_last_name")},
+                    ifnull(concat(" ", ${ref("second_last_name")}), "")
+                )`.as("fullName"),
+            ])
+            .where("rut", "=", rut)
+            .executeTakeFirst();
+
+        if (!patient) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Patient ${rut} does not exist.`);
+            return;
+        }
+
+        // staff may still book appointments on behalf of patients who haven't verified their email
+        if (!patient.emailVerified && this.getToken(request)!.type === TokenType.PATIENT && isEmailVerificationRequired()) {
+            this.sendError(response, HTTPStatus.FORBIDDEN, "Email must be verified before booking appointments.");
+            return;
+        }
+
+        const validationResult = await this.newAppointmentValidator.validate(request.body, rut);
+
+        if (!validationResult.ok) {
+            this.sendError(response, validationResult.status, validationResult.message);
+            return;
+        }
+
+        const { date, description, timeSlotId } = validationResult.value;
+
+        const timeSlot = await db
             .selectFrom("time_slot as t")
             .innerJoin("medic as m", "m.schedule_id", "t.schedule_id")
             .innerJoin("employee as e", "e.rut", "m.rut")
@@ -948,7 +1042,35 @@ export class PatientsEndpoint extends Endpoint {
         );
     }
 
-    @PatchMethod({ path: "/:rut/appointments/:id", requiresAuthorization: true })
+    @PatchMethod({
+        path: "/:rut/appointments/:id",
+        permissions: ["patients:write:own", "patients:write:any"],
+        owner: ownedBy(TokenType.PATIENT),
+        schema: {
+            tags: ["Patients", "Appointments"],
+            summary: "Update a patient's appointment. Patients can only modify their own appointments.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+                id: { description: "The appointment's id.", schema: { type: "number", minimum: 1 } },
+            },
+            body: { schema: schemaRef("AppointmentUpdate") },
+            headers: {
+                "If-Match": {
+                    description: "ETag of the appointment as last read. The request is rejected if it has changed since.",
+                    schema: { type: "string" },
+                },
+            },
+            responses: {
+                [HTTPStatus.CREATED]: "Successfully updated the appointment.",
+                [HTTPStatus.NOT_MODIFIED]: "Appointment was not modified.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut or request body.",
+                [HTTPStatus.NOT_FOUND]: "Patient or appointment do not exist.",
+                [HTTPStatus.CONFLICT]: "Request body creates conflicts with existing data.",
+                [HTTPStatus.PRECONDITION_FAILED]: "Appointment has been modified since it was read.",
+                [HTTPStatus.PRECONDITION_REQUIRED]: "If-Match header is missing and the server requires it.",
+            },
+        },
+    })
     public async updateAppointment(
         request: Request<{ rut: string; id: string }, unknown, AppointmentUpdate>,
         response: Response
@@ -960,13 +1082,6 @@ export class PatientsEndpoint extends Endpoint {
             return;
         }
 
-        const token = this.getToken(request)!;
-
-        if (token.type === TokenType.PATIENT && token.rut !== rut) {
-            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid session token.");
-            return;
-        }
-
         const id = await new Promise<bigint | null>(resolve => {
             try {
                 resolve(BigInt(request.params.id));
@@ -1011,6 +1126,7 @@ export class PatientsEndpoint extends Endpoint {
                 "a.time_slot_id as timeSlotId",
                 "a.description",
                 "a.confirmed",
+                "a.updated_at as updatedAt",
                 "t.start",
                 "e.email as medicEmail",
                 sql<string>`concat(
@@ -1029,6 +1145,10 @@ export class PatientsEndpoint extends Endpoint {
             return;
         }
 
+        if (!this.checkIfMatch(request, response, appointment.updatedAt)) {
+            return;
+        }
+
         const validationResult = await this.appointmentUpdateValidator.validate(request.body, appointment, rut);
 
         if (!validationResult.ok) {
@@ -1041,6 +1161,7 @@ export class PatientsEndpoint extends Endpoint {
         const updateResult = await db
             .updateTable("appointment")
             .where("id", "=", idString)
+            .$if(this.isConditional(request), qb => qb.where("updated_at", "=", appointment.updatedAt))
             .set({
                 date,
                 time_slot_id: timeSlotId,
@@ -1049,6 +1170,11 @@ export class PatientsEndpoint extends Endpoint {
             })
             .execute();
 
+        if (updateResult[0].numUpdatedRows === 0n) {
+            this.sendModifiedSinceRead(response);
+            return;
+        }
+
         if (updateResult[0].numChangedRows === 0n) {
             this.sendStatus(response, HTTPStatus.NOT_MODIFIED);
             return;
@@ -1073,7 +1199,32 @@ export class PatientsEndpoint extends Endpoint {
         }
     }
 
-    @DeleteMethod({ path: "/:rut/appointments/:id", requiresAuthorization: true })
+    @DeleteMethod({
+        path: "/:rut/appointments/:id",
+        permissions: ["patients:write:own", "patients:write:any"],
+        owner: ownedBy(TokenType.PATIENT),
+        schema: {
+            tags: ["Patients", "Appointments"],
+            summary: "Delete a patient's appointment. Patient's can only delete their own.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+                id: { description: "The appointment's id.", schema: { type: "number", minimum: 1 } },
+            },
+            headers: {
+                "If-Match": {
+                    description: "ETag of the appointment as last read. The request is rejected if it has changed since.",
+                    schema: { type: "string" },
+                },
+            },
+            responses: {
+                [HTTPStatus.CREATED]: "Successfully deleted the appointment.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut or id.",
+                [HTTPStatus.NOT_FOUND]: "Patient or appointment do not exist.",
+                [HTTPStatus.PRECONDITION_FAILED]: "Appointment has been modified since it was read.",
+                [HTTPStatus.PRECONDITION_REQUIRED]: "If-Match header is missing and the server requires it.",
+            },
+        },
+    })
     public async deleteAppointment(request: Request<{ rut: string; id: string }>, response: Response): Promise<void> {
         const { rut } = request.params;
 
@@ -1082,13 +1233,6 @@ export class PatientsEndpoint extends Endpoint {
             return;
         }
 
-        const token = this.getToken(request)!;
-
-        if (token.type === TokenType.PATIENT && token.rut !== rut) {
-            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Invalid session token.");
-            return;
-        }
-
         const id = await new Promise<bigint | null>(resolve => {
             try {
                 resolve(BigInt(request.params.id));
@@ -1130,6 +1274,7 @@ export class PatientsEndpoint extends Endpoint {
             .innerJoin("employee as e", "e.rut", "m.rut")
             .select(({ ref }) => [
                 "a.date",
+                "a.updated_at as updatedAt",
                 "t.start",
                 "e.email as medicEmail",
                 sql<string>`concat(
@@ -1148,11 +1293,23 @@ export class PatientsEndpoint extends Endpoint {
             return;
         }
 
-        await db
+        if (!this.checkIfMatch(request, response, appointment.updatedAt)) {
+            return;
+        }
+
+        const conditional = this.isConditional(request);
+
+        const deleteResult = await db
             .deleteFrom("appointment")
             .where("id", "=", idString)
+            .$if(conditional, qb => qb.where("updated_at", "=", appointment.updatedAt))
             .execute();
 
+        if (conditional && deleteResult[0].numDeletedRows === 0n) {
+            this.sendModifiedSinceRead(response);
+            return;
+        }
+
         this.sendStatus(response, HTTPStatus.NO_CONTENT);
 
         await sendEmail(
@@ -1170,16 +1327,48 @@ export class PatientsEndpoint extends Endpoint {
         );
     }
 
-    @PostMethod("/:rut/session")
-    public async createSession(
-        request: Request<{ rut: string }, unknown, { password?: string }>,
-        response: Response<{ token: string }>
+    @PutMethod({
+        path: "/:rut/password",
+        permissions: ["passwords:write:own"],
+        owner: ownedBy(TokenType.PATIENT),
+        schema: {
+            tags: ["Patients"],
+            summary: "Change the patient's password. Revokes every other session of the patient.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("PasswordUpdate") },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Password successfully changed.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, missing current password or new password does not follow the "
+                    + "password policy.",
+                [HTTPStatus.UNAUTHORIZED]: "Session token is missing or invalid, or incorrect current password.",
+                [HTTPStatus.NOT_FOUND]: "Patient does not exist.",
+            },
+        },
+    })
+    public async updatePassword(
+        request: Request<{ rut: string }, unknown, PasswordUpdate>,
+        response: Response
     ): Promise<void> {
         const { rut } = request.params;
-        const { password } = request.body;
 
-        if (!password) {
-            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain password.");
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const token = this.getToken(request)!;
+
+        const { currentPassword, newPassword } = request.body;
+
+        if (!currentPassword || typeof currentPassword !== "string") {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain currentPassword.");
+            return;
+        }
+
+        if (!newPassword || typeof newPassword !== "string" || !isValidPassword(newPassword)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid newPassword.");
             return;
         }
 
@@ -1194,19 +1383,264 @@ export class PatientsEndpoint extends Endpoint {
             return;
         }
 
-        const encryptedPassword = createHash("sha512").update(password + patient.salt).digest("base64url");
+        const { valid } = await verifyPassword(currentPassword, patient);
 
-        if (encryptedPassword !== patient.password) {
+        if (!valid) {
             this.sendError(response, HTTPStatus.UNAUTHORIZED, "Incorrect password.");
             return;
         }
 
-        const token = await generateToken(rut, TokenType.PATIENT);
+        if (currentPassword === newPassword) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "New password must be different from the current one.");
+            return;
+        }
 
-        this.sendStatus(response, HTTPStatus.CREATED, { token });
+        await db
+            .updateTable("patient")
+            .set(await hashPassword(newPassword))
+            .where("rut", "=", rut)
+            .execute();
+
+        await revokeOtherTokens(rut, TokenType.PATIENT, token.token);
+
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
+
+    @PostMethod({
+        path: "/:rut/password-reset",
+        schema: {
+            tags: ["Patients"],
+            summary: "Send a single-use code to the patient's email, used to reset their password.",
+            description: "The response is the same whether the patient exists or not.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.ACCEPTED]: "Password reset requested. If the patient exists, the code has been sent to their "
+                    + "email.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut.",
+                [HTTPStatus.TOO_MANY_REQUESTS]: "Too many password reset codes have been requested recently.",
+            },
+        },
+    })
+    public async requestPasswordReset(request: Request<{ rut: string }>, response: Response): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const code = await createPasswordResetCode(rut, TokenType.PATIENT);
+
+        if (!code) {
+            this.sendError(response, HTTPStatus.TOO_MANY_REQUESTS, "Too many password reset requests, try again later.");
+            return;
+        }
+
+        const patient = await db
+            .selectFrom("patient")
+            .select("email")
+            .where("rut", "=", rut)
+            .executeTakeFirst();
+
+        // same response whether the patient exists or not, so it can't be used to find out registered ruts
+        this.sendStatus(response, HTTPStatus.ACCEPTED);
+
+        if (patient) {
+            await sendEmail(
+                patient.email,
+                "Restablecer contraseña",
+                `Tu código para restablecer tu contraseña es ${code}. Expira en ${passwordResetCodeLifetime} minutos.\n\n`
+                + "Si no solicitaste este cambio, puedes ignorar este mensaje."
+            );
+        }
     }
 
-    @DeleteMethod({ path: "/:rut/session", requiresAuthorization: TokenType.PATIENT })
+    @PostMethod({
+        path: "/:rut/password-reset/confirm",
+        schema: {
+            tags: ["Patients"],
+            summary: "Reset the patient's password using the code sent to their email. Revokes all of the patient's "
+                + "sessions.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+            },
+            body: { schema: schemaRef("PasswordResetConfirmation") },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Password successfully reset.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, missing code, invalid or expired code, or new password does not "
+                    + "follow the password policy.",
+            },
+        },
+    })
+    public async confirmPasswordReset(
+        request: Request<{ rut: string }, unknown, PasswordResetConfirmation>,
+        response: Response
+    ): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const { code, newPassword } = request.body;
+
+        if (!code || typeof code !== "string") {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain code.");
+            return;
+        }
+
+        if (!newPassword || typeof newPassword !== "string" || !isValidPassword(newPassword)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid newPassword.");
+            return;
+        }
+
+        const valid = await consumePasswordResetCode(rut, TokenType.PATIENT, code);
+
+        if (!valid) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid or expired code.");
+            return;
+        }
+
+        const updateResult = await db
+            .updateTable("patient")
+            .set(await hashPassword(newPassword))
+            .where("rut", "=", rut)
+            .execute();
+
+        if (updateResult[0].numUpdatedRows === 0n) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid or expired code.");
+            return;
+        }
+
+        await revokeOtherTokens(rut, TokenType.PATIENT);
+        await clearFailedAttempts(rut, TokenType.PATIENT);
+
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
+
+    @DeleteMethod({
+        path: "/:rut/lockout",
+        permissions: ["lockouts:write:any"],
+        schema: {
+            tags: ["Patients"],
+            summary: "Unlock the patient's account, clearing their failed login attempts.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Account successfully unlocked.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut.",
+                [HTTPStatus.NOT_FOUND]: "The patient has no failed login attempts.",
+            },
+        },
+    })
+    public async unlockPatient(request: Request<{ rut: string }>, response: Response): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const unlocked = await clearFailedAttempts(rut, TokenType.PATIENT);
+
+        if (!unlocked) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Patient ${rut} has no failed login attempts.`);
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
+
+    @PostMethod({
+        path: "/:rut/session",
+        idempotent: false,
+        schema: {
+            tags: ["Patients"],
+            summary: "Generate a new session token for the selected patient.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+            },
+            body: { description: "The patient's password.", schema: schemaRef("Password") },
+            responses: {
+                [HTTPStatus.CREATED]: {
+                    description: "Session token successfully generated.",
+                    schema: schemaRef("SessionToken"),
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, or password missing in request body.",
+                [HTTPStatus.UNAUTHORIZED]: "Invalid credentials. The patient does not exist or the password is incorrect.",
+                [HTTPStatus.LOCKED]: {
+                    description: "The patient's account is temporarily locked due to too many failed login attempts.",
+                    schema: schemaRef("Error"),
+                    headers: {
+                        "Retry-After": {
+                            description: "Seconds until the account gets unlocked.",
+                            schema: { type: "integer" },
+                        },
+                    },
+                },
+                [HTTPStatus.TOO_MANY_REQUESTS]: {
+                    description: "Too many failed login attempts, either for this patient or from this IP address.",
+                    schema: schemaRef("Error"),
+                    headers: {
+                        "Retry-After": {
+                            description: "Seconds until a new attempt can be made.",
+                            schema: { type: "integer" },
+                        },
+                    },
+                },
+            },
+        },
+    })
+    public async createSession(
+        request: Request<{ rut: string }, unknown, { password?: string }>,
+        response: Response<{ token: string }>
+    ): Promise<void> {
+        const { rut } = request.params;
+        const { password } = request.body;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        if (!password) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain password.");
+            return;
+        }
+
+        const result = await authenticate(rut, TokenType.PATIENT, password, this.getSessionMetadata(request));
+
+        if (!result.ok) {
+            if (result.retryAfter) {
+                response.setHeader("Retry-After", result.retryAfter);
+            }
+
+            this.sendError(response, result.status, result.message);
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.CREATED, { token: result.token });
+    }
+
+    @DeleteMethod({
+        path: "/:rut/session",
+        permissions: ["sessions:write:own"],
+        owner: ownedBy(TokenType.PATIENT),
+        schema: {
+            tags: ["Patients"],
+            summary: "Revoke the patient's session token.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Token successfully revoked.",
+            },
+        },
+    })
     public async expireSession(request: Request, response: Response): Promise<void> {
         const { token } = this.getToken(request)!;
 
@@ -1214,6 +1648,179 @@ export class PatientsEndpoint extends Endpoint {
 
         this.sendStatus(response, HTTPStatus.NO_CONTENT);
     }
+
+    @PostMethod({
+        path: "/:rut/session/refresh",
+        permissions: ["sessions:write:own"],
+        owner: ownedBy(TokenType.PATIENT),
+        idempotent: false,
+        schema: {
+            tags: ["Patients"],
+            summary: "Replace the patient's session token with a new one, resetting its expiration.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.CREATED]: {
+                    description: "Session token successfully rotated.",
+                    schema: schemaRef("SessionToken"),
+                },
+            },
+        },
+    })
+    public async refreshSession(request: Request<{ rut: string }>, response: Response<{ token: string }>): Promise<void> {
+        const oldToken = this.getToken(request)!;
+        const token = await rotateToken(oldToken.token);
+
+        if (!token) {
+            this.sendError(response, HTTPStatus.UNAUTHORIZED, "Session token has expired.");
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.CREATED, { token });
+    }
+
+    @GetMethod({
+        path: "/:rut/sessions",
+        permissions: ["sessions:read:own"],
+        owner: ownedBy(TokenType.PATIENT),
+        schema: {
+            tags: ["Patients"],
+            summary: "Get a list of all of the patient's active sessions.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved the sessions list.",
+                    schema: { type: "array", items: schemaRef("Session") },
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut.",
+            },
+        },
+    })
+    public async getSessions(request: Request<{ rut: string }>, response: Response<Session[]>): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const token = this.getToken(request)!;
+
+        const sessions = await getSessions(rut, TokenType.PATIENT);
+
+        this.sendOk(response, sessions.map(session => ({
+            ...session,
+            current: session.id === token.id,
+        })));
+    }
+
+    @GetMethod({
+        path: "/:rut/login-history",
+        permissions: ["login-history:read:own", "login-history:read:any"],
+        owner: ownedBy(TokenType.PATIENT),
+        schema: {
+            tags: ["Patients"],
+            summary: "Get the patient's login attempts, both successful and failed. Patients can only get their own.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+            },
+            query: {
+                from: {
+                    description: "Only include attempts made at or after this date.",
+                    schema: { type: "string", format: "date-time" },
+                },
+                to: {
+                    description: "Only include attempts made at or before this date.",
+                    schema: { type: "string", format: "date-time" },
+                },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved login history, most recent attempts first.",
+                    schema: { type: "array", items: schemaRef("LoginAttempt") },
+                },
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut, from or to.",
+            },
+        },
+    })
+    public async getLoginHistory(
+        request: Request<{ rut: string }, unknown, unknown, LoginHistoryQuery>,
+        response: Response<LoginAttempt[]>
+    ): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const range = parseDateRange(request.query.from, request.query.to);
+
+        if (!range) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid from or to date.");
+            return;
+        }
+
+        const history = await getLoginHistory({
+            rut,
+            type: TokenType.PATIENT,
+            ...range,
+        });
+
+        this.sendOk(response, history);
+    }
+
+    @DeleteMethod({
+        path: "/:rut/sessions/:id",
+        permissions: ["sessions:write:own"],
+        owner: ownedBy(TokenType.PATIENT),
+        schema: {
+            tags: ["Patients"],
+            summary: "Revoke one of the patient's sessions.",
+            params: {
+                rut: { description: "The patient's rut.", schema: schemaRef("Rut") },
+                id: { description: "The session's id.", schema: { type: "string" } },
+            },
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "Session successfully revoked.",
+                [HTTPStatus.BAD_REQUEST]: "Malformed rut or session id.",
+                [HTTPStatus.NOT_FOUND]: "Session does not exist.",
+            },
+        },
+    })
+    public async deleteSession(request: Request<{ rut: string; id: string }>, response: Response): Promise<void> {
+        const { rut } = request.params;
+
+        if (!isValidRut(rut)) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut.");
+            return;
+        }
+
+        const id = await new Promise<bigint | null>(resolve => {
+            try {
+                resolve(BigInt(request.params.id));
+            } catch (_) {
+                resolve(null);
+            }
+        });
+
+        if (!id || id <= 0n) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid session id.");
+            return;
+        }
+
+        const revoked = await revokeSession(id.toString() as BigIntString, rut, TokenType.PATIENT);
+
+        if (!revoked) {
+            this.sendError(response, HTTPStatus.NOT_FOUND, `Session ${id} for patient ${rut} does not exist.`);
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
 }
 
 type Appointment = {
@@ -1240,7 +1847,7 @@ type AppointmentUpdate = {
     confirmed?: boolean;
 };
 
-type PatientBody = SnakeToCamelRecord<Omit<NewPatient, "rut" | "salt" | "session_token">>;
+type PatientBody = SnakeToCamelRecord<Omit<NewPatient, "rut" | "salt" | "email_verified" | "updated_at">>;
 
 type PatientUpdateBody = Partial<Omit<PatientBody, "password">>;
 
@@ -1250,8 +1857,31 @@ type PatientResponse = SnakeToCamelRecord<Omit<MapNullToUndefined<Patient>,
     | "password"
     | "rut"
     | "salt"
-    | "session_token"
+    | "updated_at"
 >> & {
     bloodType?: string;
     insuranceType: string;
 };
+
+type Session = SessionInfo & {
+    current: boolean;
+};
+
+type PasswordUpdate = {
+    currentPassword?: string;
+    newPassword?: string;
+};
+
+type PasswordResetConfirmation = {
+    code?: string;
+    newPassword?: string;
+};
+
+type EmailVerificationConfirmation = {
+    token?: string;
+};
+
+type LoginHistoryQuery = {
+    from?: string;
+    to?: string;
+};
@@ -1,12 +1,20 @@
 import { Request, Response } from "express";
-import { Endpoint, GetMethod } from "../base";
+import { Endpoint, GetMethod, HTTPStatus } from "../base";
 
 export class PingEndpoint extends Endpoint {
     public constructor() {
         super("/ping");
     }
 
-    @GetMethod()
+    @GetMethod({
+        schema: {
+            tags: ["Misc"],
+            summary: "Check if the API is available.",
+            responses: {
+                [HTTPStatus.OK]: "API is available.",
+            },
+        },
+    })
     public ping(_request: Request, response: Response): void {
         this.sendOk(response);
     }
@@ -1,14 +1,37 @@
 import { Request, Response } from "express";
 import { sql } from "kysely";
 import { db, TimeSlot } from "../../db";
-import { Endpoint, GetMethod, HTTPStatus } from "../base";
+import { Endpoint, GetMethod, HTTPStatus, schemaRef } from "../base";
 
 export class ScheduleEndpoint extends Endpoint {
     public constructor() {
         super("/schedule");
     }
 
-    @GetMethod()
+    @GetMethod({
+        rateLimit: { window: 60, max: 30 },
+        schema: {
+            tags: ["Medics", "Schedule"],
+            summary: "Get the clinic's current appointments schedule.",
+            query: {
+                medics: {
+                    description: "The ruts of the selected medics.",
+                    schema: { type: "array", items: schemaRef("Rut") },
+                },
+                specialties: {
+                    description: "The ids of the selected specialties.",
+                    schema: { type: "array", items: { type: "number", minimum: 1 } },
+                },
+            },
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved the schedule.",
+                    schema: schemaRef("ClinicSchedule"),
+                },
+                [HTTPStatus.BAD_REQUEST]: "Specialties query contains invalid id.",
+            },
+        },
+    })
     public async getEntireSchedule(
         request: Request<unknown, unknown, unknown, { medics?: string | string[]; specialties?: string | string[] }>,
         response: Response<GroupedTimeSlots[]>
@@ -0,0 +1,133 @@
+import { Request, Response } from "express";
+import { AccountIdentifier, authenticateByIdentifier } from "../../auth";
+import { isValidRut } from "../../db";
+import { tokenTypeNames } from "../../tokens";
+import { TotpEnrollment } from "../../totp";
+import { Endpoint, HTTPStatus, PostMethod, schemaRef } from "../base";
+
+export class SessionsEndpoint extends Endpoint {
+    public constructor() {
+        super("/sessions");
+    }
+
+    @PostMethod({
+        idempotent: false,
+        schema: {
+            tags: ["Sessions"],
+            summary: "Generate a new session token for the account with the given rut or email, regardless of its type.",
+            description: "If several accounts share the rut or email, the session is created for the one whose password "
+                + "matches. Employees with two-factor authentication enabled or required get a challenge instead, which "
+                + "must be completed through /medics/{rut}/session/2fa or /admins/{rut}/session/2fa.",
+            body: { schema: schemaRef("SessionCredentials") },
+            responses: {
+                [HTTPStatus.CREATED]: {
+                    description: "Session token successfully generated.",
+                    schema: { allOf: [schemaRef("AccountSession"), schemaRef("SessionToken")] },
+                },
+                [HTTPStatus.ACCEPTED]: {
+                    description: "Password is correct, but a two-factor challenge must be completed.",
+                    schema: { allOf: [schemaRef("AccountSession"), schemaRef("TwoFactorChallenge")] },
+                },
+                [HTTPStatus.BAD_REQUEST]: "Missing password, or missing or malformed rut or email.",
+                [HTTPStatus.UNAUTHORIZED]: "Invalid credentials. No account matches the rut or email, or the password is "
+                    + "incorrect.",
+                [HTTPStatus.LOCKED]: {
+                    description: "The account is temporarily locked due to too many failed login attempts.",
+                    schema: schemaRef("Error"),
+                    headers: {
+                        "Retry-After": {
+                            description: "Seconds until the account gets unlocked.",
+                            schema: { type: "integer" },
+                        },
+                    },
+                },
+                [HTTPStatus.TOO_MANY_REQUESTS]: {
+                    description: "Too many failed login attempts, either for this account or from this IP address.",
+                    schema: schemaRef("Error"),
+                    headers: {
+                        "Retry-After": {
+                            description: "Seconds until a new attempt can be made.",
+                            schema: { type: "integer" },
+                        },
+                    },
+                },
+            },
+        },
+    })
+    public async createSession(
+        request: Request<unknown, unknown, SessionCredentials>,
+        response: Response<NewSession | TwoFactorChallenge>
+    ): Promise<void> {
+        const { rut, email, password } = request.body;
+
+        if ((typeof rut === "undefined") === (typeof email === "undefined")) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain either rut or email.");
+            return;
+        }
+
+        const invalidRut = typeof rut !== "undefined" && (typeof rut !== "string" || !isValidRut(rut));
+        const invalidEmail = typeof email !== "undefined" && (typeof email !== "string" || !email);
+
+        if (invalidRut || invalidEmail) {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Invalid rut or email.");
+            return;
+        }
+
+        if (!password || typeof password !== "string") {
+            this.sendError(response, HTTPStatus.BAD_REQUEST, "Request body must contain password.");
+            return;
+        }
+
+        const identifier: AccountIdentifier = rut ? { rut } : { email: email! };
+        const result = await authenticateByIdentifier(identifier, password, this.getSessionMetadata(request));
+
+        if (!result.ok) {
+            if (result.retryAfter) {
+                response.setHeader("Retry-After", result.retryAfter);
+            }
+
+            this.sendError(response, result.status, result.message);
+            return;
+        }
+
+        const account = {
+            type: tokenTypeNames[result.type],
+            rut: result.rut,
+        };
+
+        // two-factor challenges must be completed through the session routes of the account's type
+        if ("challenge" in result) {
+            this.sendStatus(response, HTTPStatus.ACCEPTED, {
+                ...account,
+                challenge: result.challenge,
+                ...result.setup && { setup: result.setup },
+            });
+            return;
+        }
+
+        this.sendStatus(response, HTTPStatus.CREATED, {
+            ...account,
+            token: result.token,
+        });
+    }
+}
+
+type SessionCredentials = {
+    rut?: string;
+    email?: string;
+    password?: string;
+};
+
+type AccountInfo = {
+    type: typeof tokenTypeNames[keyof typeof tokenTypeNames];
+    rut: string;
+};
+
+type NewSession = AccountInfo & {
+    token: string;
+};
+
+type TwoFactorChallenge = AccountInfo & {
+    challenge: string;
+    setup?: TotpEnrollment;
+};
@@ -1,13 +1,24 @@
 import { Request, Response } from "express";
 import { db, Specialty } from "../../db";
-import { Endpoint, GetMethod } from "../base";
+import { Endpoint, GetMethod, HTTPStatus, schemaRef } from "../base";
 
 export class SpecialtiesEndpoint extends Endpoint {
     public constructor() {
         super("/specialties");
     }
 
-    @GetMethod()
+    @GetMethod({
+        schema: {
+            tags: ["Medics", "Misc"],
+            summary: "Get a list of all specialties.",
+            responses: {
+                [HTTPStatus.OK]: {
+                    description: "Successfully retrieved the list of specialties.",
+                    schema: { type: "array", items: schemaRef("Specialty") },
+                },
+            },
+        },
+    })
     public async getAllSpecialties(_request: Request, response: Response<Specialty[]>): Promise<void> {
         const specialties = await db
             .selectFrom("specialty")
@@ -0,0 +1,4 @@
+// Starts off as v1. Endpoints with breaking changes extend or replace the v1 ones here, and their exports take
+// precedence over the re-exported ones.
+export * from "../v1";
+export { PingEndpoint } from "./ping";
@@ -0,0 +1,18 @@
+import { Request, Response } from "express";
+import { GetMethod, HTTPStatus } from "../base";
+import { PingEndpoint as V1PingEndpoint } from "../v1";
+
+export class PingEndpoint extends V1PingEndpoint {
+    @GetMethod({
+        schema: {
+            tags: ["Misc"],
+            summary: "Check if the API is available.",
+            responses: {
+                [HTTPStatus.NO_CONTENT]: "API is available.",
+            },
+        },
+    })
+    public override ping(_request: Request, response: Response): void {
+        this.sendStatus(response, HTTPStatus.NO_CONTENT);
+    }
+}
@@ -1,3 +1,4 @@
+import { isValidEmail, isValidPhone, isValidRut } from "../db";
 import { HTTPStatus } from "./base";
 
 export class Validator<T extends Record<string, any>, ExtraGlobalArgs extends any[] = []> {
@@ -19,6 +20,10 @@ export class Validator<T extends Record<string, any>, ExtraGlobalArgs extends an
         this.globalValidator = globalValidator;
     }
 
+    /**
+     * Keys missing from the object are left out of the result. Values returned by the validators are the ones passed to
+     * the global validator and returned.
+     */
     public async validate(object: Record<string, any>, ...args: ExtraGlobalArgs): Promise<ValidationResult<T>> {
         const result = {} as T;
 
@@ -27,11 +32,7 @@ export class Validator<T extends Record<string, any>, ExtraGlobalArgs extends an
             const value = object[key];
 
             if (validator.required && !value) {
-                return {
-                    ok: false,
-                    status: HTTPStatus.BAD_REQUEST,
-                    message: `Missing ${key}.`,
-                };
+                return missing(key);
             }
 
             // eslint-disable-next-line no-await-in-loop
@@ -41,10 +42,14 @@ export class Validator<T extends Record<string, any>, ExtraGlobalArgs extends an
                 return validationResult;
             }
 
-            result[key] = value;
+            const validValue = "value" in validationResult ? validationResult.value : value;
+
+            if (typeof validValue !== "undefined") {
+                result[key] = validValue as T[keyof T & string];
+            }
         }
 
-        const validationResult = await this.globalValidator?.(object as T, ...args) ?? {
+        const validationResult = await this.globalValidator?.({ ...object, ...result } as T, ...args) ?? {
             ok: true,
         };
 
@@ -55,8 +60,232 @@ export class Validator<T extends Record<string, any>, ExtraGlobalArgs extends an
     }
 }
 
+/**
+ * Validates a single value. Instances are immutable, every modifier returns a new one, so they can be
+ * shared between validators. Build them through {@link field}.
+ */
+export class FieldValidator<T> {
+    private readonly parse: FieldParser<T>;
+    private readonly checks: ReadonlyArray<FieldCheck<any>>;
+    private readonly allows: FieldAllowances;
+
+    public constructor(parse: FieldParser<T>, checks: ReadonlyArray<FieldCheck<any>> = [], allows: FieldAllowances = {}) {
+        this.parse = parse;
+        this.checks = checks;
+        this.allows = allows;
+    }
+
+    public get required(): boolean {
+        return !this.allows.undefined && !this.allows.empty;
+    }
+
+    /**
+     * Allows the value to be missing, in which case it's left out of the result.
+     */
+    public optional(): FieldValidator<T | undefined> {
+        return new FieldValidator<T | undefined>(this.parse, this.checks, { ...this.allows, undefined: true });
+    }
+
+    /**
+     * Allows the value to be `null`.
+     */
+    public nullable(): FieldValidator<T | null> {
+        return new FieldValidator<T | null>(this.parse, this.checks, { ...this.allows, null: true });
+    }
+
+    /**
+     * Allows the value to be missing or any falsy value, like `null`, `""`, `0` or `false`, which is kept as is.
+     */
+    public orEmpty(): FieldValidator<T | null | undefined> {
+        return new FieldValidator<T | null | undefined>(this.parse, this.checks, { ...this.allows, empty: true });
+    }
+
+    /**
+     * Adds a check run on the parsed value, never on an allowed missing, `null` or empty one. Returning `false` fails
+     * with the usual `Invalid key.` error, while returning a result allows responding with a different status or message.
+     */
+    public check(check: FieldCheck<NonNullable<T>>): FieldValidator<T> {
+        return new FieldValidator<T>(this.parse, [...this.checks, check], this.allows);
+    }
+
+    public async validate(value: unknown, key: string): Promise<FieldValidationResult<T>> {
+        if ((typeof value === "undefined" && this.allows.undefined)
+            || (value === null && this.allows.null)
+            || (!value && this.allows.empty)
+        ) {
+            return {
+                ok: true,
+                value: value as T,
+            };
+        }
+
+        const parseResult = await this.parse(value, key);
+
+        if (!parseResult.ok) {
+            return parseResult;
+        }
+
+        for (const check of this.checks) {
+            // eslint-disable-next-line no-await-in-loop
+            const checkResult = await check(parseResult.value, key);
+
+            if (checkResult === false) {
+                return invalid(key);
+            }
+
+            if (checkResult !== true && !checkResult.ok) {
+                return checkResult;
+            }
+        }
+
+        return parseResult;
+    }
+}
+
+export const field = {
+    string(options: StringOptions = {}): FieldValidator<string> {
+        const { min = 0, max = Infinity, regex } = options;
+
+        return fromPredicate((value): value is string => typeof value === "string"
+            && value.length >= min
+            && value.length <= max
+            && (!regex || regex.test(value))
+        );
+    },
+
+    number(options: NumberOptions = {}): FieldValidator<number> {
+        return fromPredicate((value): value is number => typeof value === "number"
+            && Number.isFinite(value)
+            && isInRange(value, options)
+        );
+    },
+
+    integer(options: NumberOptions = {}): FieldValidator<number> {
+        return fromPredicate((value): value is number => Number.isSafeInteger(value)
+            && isInRange(value as number, options)
+        );
+    },
+
+    boolean(): FieldValidator<boolean> {
+        return fromPredicate((value): value is boolean => typeof value === "boolean");
+    },
+
+    enum<const V extends string>(values: readonly V[]): FieldValidator<V> {
+        const valuesSet = new Set<unknown>(values);
+        return fromPredicate((value): value is V => valuesSet.has(value));
+    },
+
+    /**
+     * In `yyyy-mm-dd` format.
+     */
+    date(options: DateOptions = {}): FieldValidator<string> {
+        const { allowPast = true } = options;
+
+        return fromPredicate((value): value is string => {
+            if (typeof value !== "string" || !/^\d{4}-(?:0[1-9]|1[0-2])-(?:0[1-9]|[1-2][0-9]|3[0-1])$/.test(value)) {
+                return false;
+            }
+
+            if (allowPast) {
+                return true;
+            }
+
+            const today = new Date(new Date().toLocaleDateString("es-CL").split("-").reverse().join("-")).getTime();
+            return new Date(value).getTime() >= today;
+        });
+    },
+
+    /**
+     * In 24-hour `hh:mm` format.
+     */
+    time(): FieldValidator<string> {
+        return field.string({ regex: /^(?:[0-1][0-9]|2[0-3]):[0-5][0-9]$/ });
+    },
+
+    rut(): FieldValidator<string> {
+        return field.string().check(isValidRut);
+    },
+
+    email(): FieldValidator<string> {
+        return field.string().check(isValidEmail);
+    },
+
+    phone(): FieldValidator<number> {
+        return field.number().check(isValidPhone);
+    },
+};
+
+function fromPredicate<T>(predicate: (value: unknown) => value is T): FieldValidator<T> {
+    return new FieldValidator<T>((value, key) => predicate(value) ? {
+        ok: true,
+        value,
+    } : invalid(key));
+}
+
+function isInRange(value: number, options: NumberOptions): boolean {
+    const { min = -Infinity, max = Infinity } = options;
+    return value >= min && value <= max;
+}
+
+function missing(key: string): ValidationError {
+    return {
+        ok: false,
+        status: HTTPStatus.BAD_REQUEST,
+        message: `Missing ${key}.`,
+    };
+}
+
+function invalid(key: string): ValidationError {
+    return {
+        ok: false,
+        status: HTTPStatus.BAD_REQUEST,
+        message: `Invalid ${key}.`,
+    };
+}
+
+export type FieldType<F> = F extends FieldValidator<infer T> ? T : never;
+
+type FieldParser<T> = (value: unknown, key: string) => FieldValidationResult<T> | Promise<FieldValidationResult<T>>;
+
+type FieldCheck<T> = (value: T, key: string) => boolean | ValidatorResult | Promise<boolean | ValidatorResult>;
+
+type FieldAllowances = {
+    undefined?: boolean;
+    null?: boolean;
+    /**
+     * Any falsy value.
+     */
+    empty?: boolean;
+};
+
+type StringOptions = {
+    min?: number;
+    max?: number;
+    regex?: RegExp;
+};
+
+type NumberOptions = {
+    /**
+     * Inclusive.
+     */
+    min?: number;
+    /**
+     * Inclusive.
+     */
+    max?: number;
+};
+
+type DateOptions = {
+    /**
+     * Whether dates before today are valid. Defaults to `true`.
+     */
+    allowPast?: boolean;
+};
+
 type ValidatorObject<T extends Record<string, any>, IncludeFunctionEntries extends boolean = true> = {
-    [K in keyof T]-?: IncludeFunctionEntries extends true ? ValidatorFunction<K> | ValidatorEntry<K> : ValidatorEntry<K>;
+    [K in keyof T]-?: IncludeFunctionEntries extends true
+        ? ValidatorFunction<K> | ValidatorEntry<K> | FieldValidator<T[K]>
+        : ValidatorEntry<K>;
 };
 
 type ValidatorEntry<K> = {
@@ -73,6 +302,15 @@ type GlobalValidatorFunction<T, ExtraGlobalArgs extends any[]> = (
 
 type ValidatorResult = ValidationError | {
     ok: true;
+    /**
+     * Coerced value, used instead of the original one when present.
+     */
+    value?: unknown;
+};
+
+type FieldValidationResult<T> = ValidationError | {
+    ok: true;
+    value: T;
 };
 
 type ValidationResult<T> = ValidationError | {
@@ -0,0 +1,148 @@
+import { NextFunction, Request, Response } from "express";
+import { HTTPStatus } from "./endpoints";
+import logger from "./logger";
+
+/**
+ * Messages of the errors signaled by triggers because of the data of the row itself, instead of a conflict with other
+ * rows.
+ */
+const invalidDataSignals = [
+    /^Invalid rut /,
+    /, expected a medic\.$/,
+    /cannot be set in the past\.$/,
+    /do not match\.$/,
+] as const;
+
+/**
+ * Translates errors thrown by the database into the error response they should produce. Errors signaled by triggers and
+ * constraint violations are caused by the request, so they map to 400 or 409 responses, and anything else is an internal
+ * server error.
+ */
+export function translateError(error: unknown): ErrorResponse {
+    if (!isMySqlError(error)) {
+        return getInternalServerError();
+    }
+
+    const { code, sqlState, message } = error;
+
+    if (sqlState === "45000") {
+        return {
+            status: invalidDataSignals.some(regex => regex.test(message))
+                ? HTTPStatus.BAD_REQUEST
+                : HTTPStatus.CONFLICT,
+            message,
+        };
+    }
+
+    switch (code) {
+        case "ER_DUP_ENTRY": {
+            const key = message.match(/for key '(?:\w+\.)?(\w+)'$/)?.[1];
+
+            return {
+                status: HTTPStatus.CONFLICT,
+                message: !key || key === "PRIMARY"
+                    ? "Resource already exists."
+                    : `Resource with that ${key} already exists.`,
+            };
+        }
+        case "ER_NO_REFERENCED_ROW":
+        case "ER_NO_REFERENCED_ROW_2": {
+            const table = message.match(/ REFERENCES `(\w+)`/)?.[1];
+
+            return {
+                status: HTTPStatus.BAD_REQUEST,
+                message: table ? `Referenced ${table} does not exist.` : "Referenced resource does not exist.",
+            };
+        }
+        case "ER_ROW_IS_REFERENCED":
+        case "ER_ROW_IS_REFERENCED_2": {
+            const table = message.match(/\(`\w+`\.`(\w+)`, CONSTRAINT/)?.[1];
+
+            return {
+                status: HTTPStatus.CONFLICT,
+                message: table ? `Resource is still referenced by ${table}.` : "Resource is still referenced.",
+            };
+        }
+        default:
+            return getInternalServerError();
+    }
+}
+
+/**
+ * Must be registered after every route.
+ */
+export function unknownRouteHandler(request: Request, response: Response): void {
+    sendErrorResponse(response, {
+        status: HTTPStatus.NOT_FOUND,
+        message: `Route ${request.method} ${request.path} does not exist.`,
+    });
+}
+
+/**
+ * Handles the errors that reach Express, like the ones thrown while parsing the request body. Must be registered after
+ * every other middleware.
+ */
+export function errorHandler(error: unknown, _request: Request, response: Response, next: NextFunction): void {
+    if (response.headersSent) {
+        next(error);
+        return;
+    }
+
+    if (isBodyParserError(error)) {
+        sendErrorResponse(response, {
+            status: error.status,
+            message: error.type === "entity.parse.failed"
+                ? "Malformed JSON body."
+                : `${error.message[0].toUpperCase()}${error.message.slice(1)}.`,
+        });
+        return;
+    }
+
+    const errorResponse = translateError(error);
+
+    if (errorResponse.status === HTTPStatus.INTERNAL_SERVER_ERROR) {
+        logger.error(error);
+    }
+
+    sendErrorResponse(response, errorResponse);
+}
+
+function getInternalServerError(): ErrorResponse {
+    return {
+        status: HTTPStatus.INTERNAL_SERVER_ERROR,
+        message: "Internal server error.",
+    };
+}
+
+function sendErrorResponse(response: Response, { status, message }: ErrorResponse): void {
+    response.status(status).send({
+        status,
+        message,
+    });
+}
+
+function isMySqlError(error: unknown): error is MySqlError {
+    return error instanceof Error && "code" in error && typeof error.code === "string" && "sqlState" in error;
+}
+
+/**
+ * Errors thrown by `express.json()` which are safe to expose to the client.
+ */
+function isBodyParserError(error: unknown): error is BodyParserError {
+    return error instanceof Error && "type" in error && "status" in error && "expose" in error && error.expose === true;
+}
+
+export type ErrorResponse = {
+    status: HTTPStatus;
+    message: string;
+};
+
+type MySqlError = Error & {
+    code: string;
+    sqlState: string;
+};
+
+type BodyParserError = Error & {
+    type: string;
+    status: HTTPStatus;
+};
@@ -0,0 +1,141 @@
+import { createHash } from "crypto";
+import { sql } from "kysely";
+import { BigIntString, db } from "./db";
+import logger from "./logger";
+
+/**
+ * In hours.
+ */
+export const idempotencyKeyLifetime = 24;
+/**
+ * In milliseconds.
+ */
+const expiredKeysPurgeInterval = 3_600_000;
+
+setInterval(purgeExpiredIdempotencyKeys, expiredKeysPurgeInterval).unref();
+
+/**
+ * Reserves the idempotency key of the client for the request, unless it has already been used.
+ *
+ * @param client Identifies who sent the request, keys are only unique per client.
+ * @param fingerprint Identifies the request itself, see {@link getRequestFingerprint}.
+ */
+export async function startIdempotentRequest(
+    client: string,
+    key: string,
+    fingerprint: string
+): Promise<IdempotentRequest> {
+    await db
+        .deleteFrom("idempotency_key")
+        .where("client", "=", client)
+        .where("idempotency_key", "=", key)
+        .where("expires_at", "<=", sql<string>`current_timestamp()`)
+        .execute();
+
+    const { insertId, numInsertedOrUpdatedRows } = await db
+        .insertInto("idempotency_key")
+        .ignore()
+        .values({
+            client,
+            idempotency_key: key,
+            fingerprint,
+            expires_at: sql<string>`current_timestamp() + interval ${idempotencyKeyLifetime} hour`,
+        })
+        .executeTakeFirstOrThrow();
+
+    if (numInsertedOrUpdatedRows === 1n && typeof insertId !== "undefined") {
+        return {
+            type: "new",
+            id: insertId.toString() as BigIntString,
+        };
+    }
+
+    const existing = await db
+        .selectFrom("idempotency_key")
+        .select(["fingerprint", "response_status as status", "response_body as body"])
+        .where("client", "=", client)
+        .where("idempotency_key", "=", key)
+        .executeTakeFirst();
+
+    // expired and purged since the insert was attempted
+    if (!existing) {
+        return startIdempotentRequest(client, key, fingerprint);
+    }
+
+    if (existing.fingerprint !== fingerprint) {
+        return { type: "mismatch" };
+    }
+
+    if (existing.status === null) {
+        return { type: "in-progress" };
+    }
+
+    return {
+        type: "replay",
+        status: existing.status,
+        body: existing.body === null ? undefined : JSON.parse(existing.body),
+    };
+}
+
+/**
+ * Stores the response of the request, so it's replayed for retries with the same key.
+ */
+export async function completeIdempotentRequest(id: BigIntString, status: number, body: unknown): Promise<void> {
+    await db
+        .updateTable("idempotency_key")
+        .set({
+            response_status: status,
+            response_body: typeof body === "undefined" ? null : JSON.stringify(body),
+        })
+        .where("id", "=", id)
+        .execute();
+}
+
+/**
+ * Releases the key so the request can be retried, used when it failed without a response worth replaying.
+ */
+export async function discardIdempotentRequest(id: BigIntString): Promise<void> {
+    await db
+        .deleteFrom("idempotency_key")
+        .where("id", "=", id)
+        .execute();
+}
+
+/**
+ * Hashes the method, URL and body of the request, so a key can't be reused for a different request.
+ */
+export function getRequestFingerprint(method: string, url: string, body: unknown): string {
+    return createHash("sha256")
+        .update(`${method} ${url}\n${JSON.stringify(body ?? null)}`)
+        .digest("base64url");
+}
+
+async function purgeExpiredIdempotencyKeys(): Promise<void> {
+    try {
+        await db
+            .deleteFrom("idempotency_key")
+            .where("expires_at", "<=", sql<string>`current_timestamp()`)
+            .execute();
+    } catch (error) {
+        logger.error("Failed to purge expired idempotency keys:", error);
+    }
+}
+
+export type IdempotentRequest = {
+    type: "new";
+    id: BigIntString;
+} | {
+    type: "replay";
+    status: number;
+    body: unknown;
+} | {
+    /**
+     * The key was used for a different request.
+     */
+    type: "mismatch";
+} | {
+    /**
+     * The original request hasn't finished yet.
+     */
+    type: "in-progress";
+};
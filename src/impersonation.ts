@@ -0,0 +1,67 @@
+import { Request, Response } from "express";
+import { BigIntString, db } from "./db";
+import logger from "./logger";
+import { generateToken, SessionMetadata, Token, TokenType, tokenTypeNames } from "./tokens";
+
+/**
+ * Requests made with these methods don't modify anything, so they're not recorded.
+ */
+const readOnlyMethods = new Set(["GET", "HEAD", "OPTIONS"]);
+
+/**
+ * Creates a new session for the specified patient or medic on behalf of an admin, recording the start of the
+ * impersonation. Its end is recorded once the session is revoked or expires.
+ *
+ * @returns The token of the new session.
+ */
+export async function startImpersonation(
+    adminRut: string,
+    rut: string,
+    type: TokenType.PATIENT | TokenType.MEDIC,
+    metadata: SessionMetadata = {}
+): Promise<string> {
+    const { insertId } = await db
+        .insertInto("impersonation")
+        .values({
+            admin_rut: adminRut,
+            rut,
+            type: tokenTypeNames[type],
+        })
+        .executeTakeFirstOrThrow();
+
+    const token = await generateToken(rut, type, metadata, {
+        id: `${insertId}` as BigIntString,
+        adminRut,
+    });
+
+    logger.log(`Admin ${adminRut} started impersonating ${tokenTypeNames[type]} ${rut}.`);
+
+    return token;
+}
+
+/**
+ * Records the request once its connection closes, if it was made with an impersonation token and may have modified
+ * something. Requests whose response couldn't be fully sent, e.g. because the client disconnected, are recorded too,
+ * since they may have modified something anyway, but they're marked as not completed.
+ */
+export function recordImpersonatedRequest(token: Token, request: Request, response: Response): void {
+    if (!token.impersonationId || readOnlyMethods.has(request.method)) {
+        return;
+    }
+
+    const impersonationId = token.impersonationId;
+
+    response.once("close", () => {
+        db
+            .insertInto("impersonation_action")
+            .values({
+                impersonation_id: impersonationId,
+                method: request.method,
+                path: request.originalUrl.slice(0, 256),
+                status: response.statusCode,
+                completed: response.writableFinished,
+            })
+            .execute()
+            .catch(error => logger.error("Failed to record impersonated request:", error));
+    });
+}
@@ -3,19 +3,22 @@ import detectPort from "detect-port";
 import { config as dotenvConfig } from "dotenv";
 import express, { Router } from "express";
 import qs from "qs";
+import { initApiKeys } from "./apiKeys";
 import { connectDB } from "./db";
-import { Endpoint, Method, methodDecoratorNames, v1Endpoints } from "./endpoints";
-import logger from "./logger";
-import loadSwaggerV1Docs from "./swagger";
-import { loadTokens } from "./tokens";
+import { Endpoint, getEndpointRoutes, loadApiVersions, Method } from "./endpoints";
+import { errorHandler, unknownRouteHandler } from "./errors";
+import logger, { requestLogger } from "./logger";
+import { loadPermissions } from "./permissions";
+import loadSwaggerDocs from "./swagger";
+import { initTokens } from "./tokens";
 
 dotenvConfig();
 
 const app = express();
-const router = Router();
 const PORT = +(process.env.PORT ?? 0) || 3000;
 
-const v1Path = "/api/v1";
+// needed behind reverse proxies, otherwise request.ip is the proxy's address and all clients share the same rate limit
+app.set("trust proxy", parseTrustProxy(process.env.TRUST_PROXY));
 
 app.set("query parser", (str: string) => {
     return qs.parse(str, {
@@ -25,12 +28,57 @@ app.set("query parser", (str: string) => {
     });
 });
 
-app.use(cors());
+app.use(requestLogger);
+app.use(cors({
+    exposedHeaders: [
+        "Deprecation",
+        "ETag",
+        "Idempotent-Replayed",
+        "Link",
+        "RateLimit-Limit",
+        "RateLimit-Policy",
+        "RateLimit-Remaining",
+        "RateLimit-Reset",
+        "Retry-After",
+        "Sunset",
+        "X-Request-Id",
+        "X-Total-Count",
+    ],
+}));
 app.use(express.json());
 
 void async function (): Promise<void> {
     connectDB();
-    await loadTokens();
+    await initTokens();
+    await loadPermissions();
+    initApiKeys();
+
+    for (const { version, endpoints: versionEndpoints } of await loadApiVersions()) {
+        const basePath = `/api/${version}`;
+        const router = Router();
+        const endpoints: Endpoint[] = [];
+
+        for (const v of Object.values(versionEndpoints)) {
+            if (!v || typeof v !== "function" || !(v.prototype instanceof Endpoint) || v.length !== 0) {
+                continue;
+            }
+
+            const EndpointClass = v as new () => Endpoint;
+            endpoints.push(new EndpointClass());
+        }
+
+        // fails if any route is not documented
+        loadSwaggerDocs(router, version, basePath, endpoints);
+
+        for (const endpoint of endpoints) {
+            applyEndpointMethods(router, basePath, endpoint);
+        }
+
+        app.use(basePath, router);
+    }
+
+    app.use(unknownRouteHandler);
+    app.use(errorHandler);
 
     const freePort = await detectPort(PORT);
 
@@ -41,41 +89,29 @@ void async function (): Promise<void> {
     app.listen(freePort, () => {
         logger.log("API listening on port:", freePort);
     });
-
-    loadSwaggerV1Docs(router, v1Path);
-
-    for (const v of Object.values(v1Endpoints)) {
-        if (!v || typeof v !== "function" || !(v.prototype instanceof Endpoint) || v.length !== 0) {
-            continue;
-        }
-
-        const EndpointClass = v as new () => Endpoint;
-        const endpoint = new EndpointClass();
-
-        applyEndpointMethods(EndpointClass, endpoint);
-    }
-
-    app.use(v1Path, router);
 }();
 
-function applyEndpointMethods(EndpointClass: new () => Endpoint, endpoint: Endpoint): void {
-    for (const key of Object.getOwnPropertyNames(EndpointClass.prototype)) {
-        const member = EndpointClass.prototype[key];
-
-        if (typeof member !== "function" || member.prototype instanceof Endpoint) {
-            continue;
-        }
+function applyEndpointMethods(router: Router, basePath: string, endpoint: Endpoint): void {
+    for (const { method, path, handler } of getEndpointRoutes(endpoint)) {
+        router[method.toLowerCase() as Lowercase<Method>](path, handler);
 
-        for (const decoratorName of methodDecoratorNames) {
-            if (decoratorName in member) {
-                const path = endpoint.path + member[decoratorName].path;
-                const method = member[decoratorName].method.toLowerCase() as Lowercase<Method>;
-                router[method](path, member.bind(endpoint));
+        logger.log(`Registered ${method} ${basePath}${path}`);
+    }
+}
 
-                logger.log(`Registered ${method.toUpperCase()} ${path}`);
+/**
+ * Parses the `TRUST_PROXY` variable: `true` or `false`, the amount of proxies in front of the API, or a
+ * comma-separated list of trusted addresses, subnets or Express presets such as `loopback`. Proxies aren't trusted by
+ * default.
+ */
+function parseTrustProxy(value: string | undefined): boolean | number | string {
+    if (!value || value === "false") {
+        return false;
+    }
 
-                break;
-            }
-        }
+    if (value === "true") {
+        return true;
     }
+
+    return /^\d+$/.test(value) ? +value : value;
 }
@@ -1,29 +1,185 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import { NextFunction, Request, Response } from "express";
+import { inspect } from "util";
+
 enum LogType {
+    DEBUG = "DEBUG",
     INFO = "INFO",
     WARN = "WARN",
     ERROR = "ERROR",
 }
 
+const logLevels = {
+    [LogType.DEBUG]: 0,
+    [LogType.INFO]: 1,
+    [LogType.WARN]: 2,
+    [LogType.ERROR]: 3,
+} as const satisfies Record<LogType, number>;
+
 const logColors = {
+    [LogType.DEBUG]: "\x1b[90m",
     [LogType.INFO]: "",
     [LogType.WARN]: "\x1b[33m",
     [LogType.ERROR]: "\x1b[31m",
 } as const satisfies Record<LogType, string>;
 
+/**
+ * Values of these fields are never logged, wherever they appear in a logged object. Compared in lowercase and without
+ * `-` or `_`.
+ */
+const redactedFields = new Set([
+    "allergieshistory",
+    "authorization",
+    "challenge",
+    "code",
+    "currentpassword",
+    "key",
+    "medications",
+    "morbidityhistory",
+    "newpassword",
+    "password",
+    "recoverycodes",
+    "secret",
+    "surgicalhistory",
+    "token",
+    "xapikey",
+]);
+
+const requestIdRegex = /^[\w.-]{1,64}$/;
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
 // noinspection JSUnusedGlobalSymbols
 export default {
+    debug(...messages: unknown[]): void {
+        write(LogType.DEBUG, messages);
+    },
     log(...messages: unknown[]): void {
-        console.log(prefix(LogType.INFO), ...messages, "\x1b[0m");
+        write(LogType.INFO, messages);
     },
     warn(...messages: unknown[]): void {
-        console.warn(prefix(LogType.WARN), ...messages, "\x1b[0m");
+        write(LogType.WARN, messages);
     },
     error(...messages: unknown[]): void {
-        console.error(prefix(LogType.ERROR), ...messages, "\x1b[0m");
+        write(LogType.ERROR, messages);
     },
 };
 
-function prefix(logType: LogType): string {
+/**
+ * Assigns an id to the request, which is included in every log written while handling it and returned in the
+ * `X-Request-Id` header. The id sent by the client in that same header is used if valid. Logs the status and latency of
+ * the response once it has been sent.
+ */
+export function requestLogger(request: Request, response: Response, next: NextFunction): void {
+    const clientRequestId = request.headers["x-request-id"];
+    const requestId = typeof clientRequestId === "string" && requestIdRegex.test(clientRequestId)
+        ? clientRequestId
+        : randomUUID();
+    const start = process.hrtime.bigint();
+    // the query is left out since it may contain sensitive values
+    const path = request.originalUrl.replace(/\?.*$/, "");
+
+    response.setHeader("X-Request-Id", requestId);
+
+    response.once("finish", () => {
+        const latency = Number(process.hrtime.bigint() - start) / 1e6;
+
+        requestContext.run({ requestId }, () => {
+            write(LogType.INFO, [`${request.method} ${path} ${response.statusCode}`, {
+                status: response.statusCode,
+                latencyMs: +latency.toFixed(3),
+            }]);
+        });
+    });
+
+    requestContext.run({ requestId }, next);
+}
+
+/**
+ * Returns a copy of the value where the fields that must never be logged have been replaced.
+ */
+function redact(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(redact);
+    }
+
+    if (!isPlainObject(value)) {
+        return value;
+    }
+
+    return Object.fromEntries(Object.entries(value).map(([key, nested]) => [
+        key,
+        redactedFields.has(key.toLowerCase().replace(/[-_]/g, "")) ? "[REDACTED]" : redact(nested),
+    ]));
+}
+
+function write(logType: LogType, messages: unknown[]): void {
+    const minimumLevel = (process.env.LOG_LEVEL?.toUpperCase() ?? LogType.INFO) as LogType;
+
+    if (logLevels[logType] < (logLevels[minimumLevel] ?? logLevels[LogType.INFO])) {
+        return;
+    }
+
+    const output = logType === LogType.ERROR ? console.error : logType === LogType.WARN ? console.warn : console.log;
+    const requestId = requestContext.getStore()?.requestId;
+
+    if (process.env.LOG_FORMAT === "json") {
+        output(formatJson(logType, messages, requestId));
+        return;
+    }
+
+    const prefix = requestId ? `${getPrefix(logType)} [${requestId}]` : getPrefix(logType);
+    output(prefix, ...messages.map(redact), "\x1b[0m");
+}
+
+/**
+ * Plain objects are merged into the `data` field, errors are written to the `error` field, and everything else makes up
+ * the message.
+ */
+function formatJson(logType: LogType, messages: unknown[], requestId?: string): string {
+    const text: string[] = [];
+    let data: Record<string, unknown> | undefined;
+    let error: Record<string, unknown> | undefined;
+
+    for (const message of messages) {
+        if (message instanceof Error) {
+            error = {
+                name: message.name,
+                message: message.message,
+                stack: message.stack,
+            };
+        } else if (isPlainObject(message)) {
+            data = { ...data, ...redact(message) as Record<string, unknown> };
+        } else {
+            text.push(typeof message === "string" ? message : inspect(redact(message), { breakLength: Infinity }));
+        }
+    }
+
+    return JSON.stringify({
+        time: new Date().toISOString(),
+        level: logType.toLowerCase(),
+        ...requestId && { requestId },
+        message: text.join(" "),
+        ...data && { data },
+        ...error && { error },
+    }, (_key, value) => typeof value === "bigint" ? value.toString() : value);
+}
+
+function getPrefix(logType: LogType): string {
     const now = new Date().toISOString().replace(/T|Z$/g, " ").trim();
     return `${logColors[logType]}[${now}] [API] [${logType}]`;
 }
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== "object" || value === null) {
+        return false;
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+type RequestContext = {
+    requestId: string;
+};
@@ -0,0 +1,142 @@
+import { SelectQueryBuilder, sql } from "kysely";
+import { BigIntString, db, DB, LoginHistory } from "./db";
+import { SessionMetadata, TokenType, tokenTypeNames } from "./tokens";
+
+/**
+ * Records a login attempt. Attempts that only got a two-factor challenge are not recorded until it's completed.
+ *
+ * @param failureReason `null` if the attempt was successful.
+ */
+export async function recordLoginAttempt(
+    rut: string,
+    type: TokenType,
+    metadata: SessionMetadata,
+    failureReason: LoginFailureReason | null
+): Promise<void> {
+    await db
+        .insertInto("login_history")
+        .values({
+            rut,
+            type: tokenTypeNames[type],
+            success: !failureReason,
+            failure_reason: failureReason,
+            user_agent: metadata.userAgent?.slice(0, 256) || null,
+            ip: metadata.ip || null,
+        })
+        .execute();
+}
+
+/**
+ * Returns the matching login attempts, most recent first.
+ *
+ * @param filters `from` and `to` are inclusive, in milliseconds since epoch.
+ */
+export async function getLoginHistory(filters: LoginHistoryFilters = {}): Promise<LoginAttempt[]> {
+    const attempts = await selectLoginHistory(filters)
+        .orderBy("created_at", "desc")
+        .orderBy("id", "desc")
+        .execute();
+
+    return attempts.map(({ failureReason, ip, userAgent, ...attempt }) => ({
+        ...attempt,
+        ...failureReason && { failureReason },
+        ...ip && { ip },
+        ...userAgent && { userAgent },
+    }));
+}
+
+/**
+ * Builds an unordered query for the matching login attempts, with the same fields as {@link LoginAttempt}, except
+ * missing ones are `null`.
+ *
+ * @param filters `from` and `to` are inclusive, in milliseconds since epoch.
+ */
+export function selectLoginHistory(
+    filters: LoginHistoryFilters = {}
+): SelectQueryBuilder<DB, "login_history", LoginAttemptRow> {
+    const { rut, type, from, to } = filters;
+
+    let query = db
+        .selectFrom("login_history")
+        .select([
+            "id",
+            "rut",
+            "type",
+            "success",
+            "failure_reason as failureReason",
+            "ip",
+            "user_agent as userAgent",
+            "created_at as createdAt",
+        ]);
+
+    if (rut) {
+        query = query.where("rut", "=", rut);
+    }
+
+    if (typeof type !== "undefined") {
+        query = query.where("type", "=", tokenTypeNames[type]);
+    }
+
+    if (typeof from !== "undefined") {
+        query = query.where("created_at", ">=", sql<string>`from_unixtime(${Math.floor(from / 1000)})`);
+    }
+
+    if (typeof to !== "undefined") {
+        query = query.where("created_at", "<=", sql<string>`from_unixtime(${Math.floor(to / 1000)})`);
+    }
+
+    return query;
+}
+
+/**
+ * Parses the `from` and `to` query parameters, which must be ISO 8601 dates if present.
+ *
+ * @returns The range in milliseconds since epoch, or `null` if any of them is invalid.
+ */
+export function parseDateRange(from: unknown, to: unknown): Pick<LoginHistoryFilters, "from" | "to"> | null {
+    const range: Pick<LoginHistoryFilters, "from" | "to"> = {};
+
+    for (const [key, value] of [["from", from], ["to", to]] as const) {
+        if (typeof value === "undefined") continue;
+
+        const time = typeof value === "string" ? Date.parse(value) : NaN;
+
+        if (isNaN(time)) {
+            return null;
+        }
+
+        range[key] = time;
+    }
+
+    if (typeof range.from !== "undefined" && typeof range.to !== "undefined" && range.from > range.to) {
+        return null;
+    }
+
+    return range;
+}
+
+export type LoginFailureReason = NonNullable<LoginHistory["failure_reason"]>;
+
+export type LoginHistoryFilters = {
+    rut?: string;
+    type?: TokenType;
+    from?: number;
+    to?: number;
+};
+
+export type LoginAttempt = {
+    id: BigIntString;
+    rut: string;
+    type: LoginHistory["type"];
+    success: boolean;
+    failureReason?: LoginFailureReason;
+    ip?: string;
+    userAgent?: string;
+    createdAt: string;
+};
+
+export type LoginAttemptRow = Omit<LoginAttempt, "failureReason" | "ip" | "userAgent"> & {
+    failureReason: LoginFailureReason | null;
+    ip: string | null;
+    userAgent: string | null;
+};
@@ -0,0 +1,137 @@
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import { sql } from "kysely";
+import { db } from "./db";
+import logger from "./logger";
+import { TokenType, tokenTypeNames } from "./tokens";
+
+/**
+ * In minutes.
+ */
+export const passwordResetCodeLifetime = 15;
+/**
+ * Maximum amount of codes that can be requested for the same user within an hour.
+ */
+const maxCodesPerHour = 3;
+/**
+ * Maximum amount of guesses allowed for a single code.
+ */
+const maxCodeAttempts = 5;
+
+// deferred initialization, must wait for env variables to be ready
+let secret: Buffer | undefined;
+
+/**
+ * Generates a new single-use password reset code for the specified user, invalidating any previous one.
+ *
+ * The code is stored even if the user does not exist, so rate limits behave the same either way.
+ *
+ * @returns The generated code, or `null` if the user has requested too many codes recently.
+ */
+export async function createPasswordResetCode(rut: string, type: TokenType): Promise<string | null> {
+    const { count } = await db
+        .selectFrom("password_reset")
+        .select(({ fn }) => fn.countAll<string>().as("count"))
+        .where("rut", "=", rut)
+        .where("type", "=", tokenTypeNames[type])
+        .where("created_at", ">", sql<string>`current_timestamp() - interval 1 hour`)
+        .executeTakeFirstOrThrow();
+
+    if (+count >= maxCodesPerHour) {
+        return null;
+    }
+
+    const code = randomInt(0, 1_000_000).toString().padStart(6, "0");
+
+    await db.transaction().execute(async (tsx) => {
+        await tsx
+            .updateTable("password_reset")
+            .set("used", true)
+            .where("rut", "=", rut)
+            .where("type", "=", tokenTypeNames[type])
+            .where("used", "=", false)
+            .execute();
+
+        await tsx
+            .insertInto("password_reset")
+            .values({
+                rut,
+                type: tokenTypeNames[type],
+                code_hash: hashCode(rut, type, code),
+                expires_at: sql<string>`current_timestamp() + interval ${passwordResetCodeLifetime} minute`,
+            })
+            .execute();
+    });
+
+    return code;
+}
+
+/**
+ * Checks the code against the latest valid one of the specified user, and marks it as used if it matches.
+ *
+ * @returns Whether the code was valid.
+ */
+export async function consumePasswordResetCode(rut: string, type: TokenType, code: string): Promise<boolean> {
+    const passwordReset = await db
+        .selectFrom("password_reset")
+        .select(["id", "code_hash as codeHash", "attempts"])
+        .where("rut", "=", rut)
+        .where("type", "=", tokenTypeNames[type])
+        .where("used", "=", false)
+        .where("expires_at", ">", sql<string>`current_timestamp()`)
+        .orderBy("id", "desc")
+        .executeTakeFirst();
+
+    if (!passwordReset) {
+        return false;
+    }
+
+    // counted before comparing, in a single statement, so parallel guesses can't exceed the limit
+    const { numUpdatedRows } = await db
+        .updateTable("password_reset")
+        .set("attempts", sql<number>`attempts + 1`)
+        .where("id", "=", passwordReset.id)
+        .where("attempts", "<", maxCodeAttempts)
+        .executeTakeFirst();
+
+    if (numUpdatedRows === 0n) {
+        return false;
+    }
+
+    const expected = Buffer.from(passwordReset.codeHash);
+    const actual = Buffer.from(hashCode(rut, type, code));
+
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        return false;
+    }
+
+    // the code may have been consumed by a parallel request in the meantime
+    const { numUpdatedRows: numConsumedRows } = await db
+        .updateTable("password_reset")
+        .set("used", true)
+        .where("id", "=", passwordReset.id)
+        .where("used", "=", false)
+        .executeTakeFirst();
+
+    return numConsumedRows > 0n;
+}
+
+/**
+ * Keyed with the `PASSWORD_RESET_SECRET` env variable, so codes can't be brute-forced from the stored hashes alone.
+ */
+function hashCode(rut: string, type: TokenType, code: string): string {
+    return createHmac("sha256", getSecret()).update(`${rut}:${tokenTypeNames[type]}:${code}`).digest("base64url");
+}
+
+function getSecret(): Buffer {
+    if (!secret) {
+        const envSecret = process.env.PASSWORD_RESET_SECRET;
+
+        if (!envSecret) {
+            logger.warn("PASSWORD_RESET_SECRET is not set, password reset codes will not survive a restart.");
+        }
+
+        secret = envSecret ? Buffer.from(envSecret) : randomBytes(32);
+    }
+
+    return secret;
+}
@@ -0,0 +1,176 @@
+import { getApiKeyPermissions } from "./apiKeys";
+import { db } from "./db";
+import logger from "./logger";
+import { Token, TokenType, tokenTypeNames, tokenTypes } from "./tokens";
+
+/**
+ * Permissions follow the `<resource>:<action>:<scope>` format. `own` scoped permissions only apply to resources owned by
+ * the user, as declared by the route, while `any` scoped ones apply to every resource.
+ */
+export const permissions = [
+    "admins:read:any",
+    "admins:write:own",
+    "api-keys:read:any",
+    "api-keys:write:any",
+    "appointments:read:own",
+    "appointments:read:any",
+    "appointments:write:own",
+    "appointments:write:any",
+    "clinic:write:any",
+    "impersonations:write:own",
+    "lockouts:write:any",
+    "login-history:read:own",
+    "login-history:read:any",
+    "medics:write:own",
+    "medics:write:any",
+    "passwords:write:own",
+    "patients:read:own",
+    "patients:read:any",
+    "patients:write:own",
+    "patients:write:any",
+    "schedules:read:own",
+    "schedules:read:any",
+    "schedules:write:own",
+    "schedules:write:any",
+    "sessions:read:own",
+    "sessions:write:own",
+    "two-factor:read:own",
+    "two-factor:read:any",
+    "two-factor:write:own",
+    "two-factor:write:any",
+    "two-factor:enforce:any",
+] as const;
+
+export type Permission = typeof permissions[number];
+
+const permissionSet = new Set<string>(permissions);
+
+/**
+ * Never granted to impersonation tokens, so admins can't change the credentials of the account they're impersonating.
+ * The `<type>:write:own` permissions are still granted, since they cover most of the account's data, so the routes
+ * updating the account reject email changes from impersonation tokens themselves, as password reset codes are sent
+ * there. `sessions:write:own` is also granted, since it only allows ending sessions, including the impersonation's.
+ */
+const impersonationDeniedPermissions = new Set<Permission>([
+    "impersonations:write:own",
+    "passwords:write:own",
+    "two-factor:write:own",
+]);
+
+/**
+ * Permissions of each role, by role id.
+ */
+const rolePermissions = new Map<number, Set<Permission>>();
+/**
+ * Roles granted to every account of a type.
+ */
+const defaultRoles = new Map<TokenType, number[]>();
+/**
+ * Roles explicitly assigned to an account, by `<type>:<rut>`.
+ */
+const accountRoles = new Map<string, number[]>();
+
+/**
+ * Loads all roles and their assignments into memory. Must be called again for changes in the database to take effect.
+ */
+export async function loadPermissions(): Promise<void> {
+    const roles = await db
+        .selectFrom("role as r")
+        .leftJoin("role_permission as p", "p.role_id", "r.id")
+        .select(["r.id", "r.account_type as accountType", "p.permission"])
+        .execute();
+
+    const assignments = await db
+        .selectFrom("account_role")
+        .select(["rut", "type", "role_id as roleId"])
+        .execute();
+
+    rolePermissions.clear();
+    defaultRoles.clear();
+    accountRoles.clear();
+
+    for (const { id, accountType, permission } of roles) {
+        if (!rolePermissions.has(id)) {
+            rolePermissions.set(id, new Set());
+
+            if (accountType) {
+                const type = tokenTypes[accountType];
+                defaultRoles.set(type, [...defaultRoles.get(type) ?? [], id]);
+            }
+        }
+
+        if (!permission) continue;
+
+        if (!isPermission(permission)) {
+            logger.warn(`Unknown permission ${permission} in role ${id}, ignoring...`);
+            continue;
+        }
+
+        rolePermissions.get(id)!.add(permission);
+    }
+
+    for (const { rut, type, roleId } of assignments) {
+        const key = `${type}:${rut}`;
+        accountRoles.set(key, [...accountRoles.get(key) ?? [], roleId]);
+    }
+}
+
+/**
+ * Returns every permission granted to the user, either through the default roles of their account type or through
+ * roles explicitly assigned to them.
+ */
+export function getPermissions(rut: string, type: TokenType): Set<Permission> {
+    const roleIds = [
+        ...defaultRoles.get(type) ?? [],
+        ...accountRoles.get(`${tokenTypeNames[type]}:${rut}`) ?? [],
+    ];
+
+    const granted = new Set<Permission>();
+
+    for (const roleId of roleIds) {
+        for (const permission of rolePermissions.get(roleId) ?? []) {
+            granted.add(permission);
+        }
+    }
+
+    return granted;
+}
+
+/**
+ * Returns the permissions granted to every account of the type, through its default roles.
+ */
+export function getDefaultPermissions(type: TokenType): Set<Permission> {
+    const granted = new Set<Permission>();
+
+    for (const roleId of defaultRoles.get(type) ?? []) {
+        for (const permission of rolePermissions.get(roleId) ?? []) {
+            granted.add(permission);
+        }
+    }
+
+    return granted;
+}
+
+/**
+ * Same as {@link getPermissions}, but also takes into account whether the token belongs to an impersonation or an
+ * API key. API keys only get the permissions they were created with.
+ */
+export function getTokenPermissions(token: Token): Set<Permission> {
+    if (token.apiKeyId) {
+        return getApiKeyPermissions(token.apiKeyId);
+    }
+
+    const granted = getPermissions(token.rut, token.type);
+
+    if (token.impersonationId) {
+        for (const permission of impersonationDeniedPermissions) {
+            granted.delete(permission);
+        }
+    }
+
+    return granted;
+}
+
+export function isPermission(permission: string): permission is Permission {
+    return permissionSet.has(permission);
+}
@@ -0,0 +1,87 @@
+const memoryStorePurgeInterval = 60_000;
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * Replaces the store where requests are counted. The default one keeps them in memory, so each API instance enforces
+ * its own limits. Must be called before the API starts listening.
+ */
+export function setRateLimitStore(newStore: RateLimitStore): void {
+    store = newStore;
+}
+
+/**
+ * Counts a request against the limit of the key.
+ *
+ * @param window Duration of the window, in seconds.
+ * @param max Requests allowed per window.
+ */
+export async function consumeRateLimit(key: string, window: number, max: number): Promise<RateLimitStatus> {
+    const { count, resetAt } = await store.increment(key, window * 1000);
+
+    return {
+        limited: count > max,
+        remaining: Math.max(max - count, 0),
+        reset: Math.max(Math.ceil((resetAt - Date.now()) / 1000), 0),
+    };
+}
+
+/**
+ * Counts requests in fixed windows, expired entries are purged periodically.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+    const hits = new Map<string, RateLimitHit>();
+
+    setInterval(() => {
+        const now = Date.now();
+
+        for (const [key, hit] of hits) {
+            if (hit.resetAt <= now) {
+                hits.delete(key);
+            }
+        }
+    }, memoryStorePurgeInterval).unref();
+
+    return {
+        increment(key, windowMs) {
+            const now = Date.now();
+            const hit = hits.get(key);
+
+            if (!hit || hit.resetAt <= now) {
+                const newHit = { count: 1, resetAt: now + windowMs };
+                hits.set(key, newHit);
+                return newHit;
+            }
+
+            hit.count++;
+            return hit;
+        },
+    };
+}
+
+export type RateLimitStore = {
+    /**
+     * Counts a new request for the key, starting a new window of the given duration if there isn't one in progress.
+     */
+    increment(key: string, windowMs: number): RateLimitHit | Promise<RateLimitHit>;
+};
+
+export type RateLimitHit = {
+    /**
+     * Requests made in the current window, including the one being counted.
+     */
+    count: number;
+    /**
+     * When the current window ends, in milliseconds since epoch.
+     */
+    resetAt: number;
+};
+
+export type RateLimitStatus = {
+    limited: boolean;
+    remaining: number;
+    /**
+     * Seconds until the current window ends.
+     */
+    reset: number;
+};
@@ -0,0 +1,109 @@
+import { sql } from "kysely";
+import { db, Specialty } from "./db";
+
+/**
+ * Loads the medics with the given ruts in a single query.
+ *
+ * @returns The medics mapped by rut. Unknown ruts are left out.
+ */
+export async function loadMedics(ruts: string[]): Promise<Map<string, RelatedMedic>> {
+    if (ruts.length === 0) {
+        return new Map();
+    }
+
+    const medics = await db
+        .selectFrom("medic as m")
+        .innerJoin("employee as e", "e.rut", "m.rut")
+        .innerJoin("specialty as sp", "sp.id", "m.specialty_id")
+        .select(({ ref }) => [
+            "e.rut",
+            sql<string>`concat(
+                ${ref("e.first_name")}, " ",
+                ifnull(concat(${ref("e.second_name")}, " "), ""),
+                ${ref("e.first_last_name")},
+                ifnull(concat(" ", ${ref("e.second_last_name")}), "")
+            )`.as("fullName"),
+            "e.email",
+            "e.phone",
+            "e.birth_date as birthDate",
+            "e.gender",
+            "sp.name as specialty",
+        ])
+        .where("m.rut", "in", ruts)
+        .execute();
+
+    return new Map(medics.map(medic => [medic.rut, medic]));
+}
+
+/**
+ * Loads the specialties of the medics with the given ruts in a single query.
+ *
+ * @returns The specialties mapped by the rut of the medic. Unknown ruts are left out.
+ */
+export async function loadMedicSpecialties(ruts: string[]): Promise<Map<string, Specialty>> {
+    if (ruts.length === 0) {
+        return new Map();
+    }
+
+    const specialties = await db
+        .selectFrom("medic as m")
+        .innerJoin("specialty as sp", "sp.id", "m.specialty_id")
+        .select([
+            "m.rut",
+            "sp.id",
+            "sp.name",
+        ])
+        .where("m.rut", "in", ruts)
+        .execute();
+
+    return new Map(specialties.map(({ rut, ...specialty }) => [rut, specialty]));
+}
+
+/**
+ * Loads the contact information of the patients with the given ruts in a single query. Their clinical information is
+ * never included.
+ *
+ * @returns The patients mapped by rut. Unknown ruts are left out.
+ */
+export async function loadPatients(ruts: string[]): Promise<Map<string, RelatedPatient>> {
+    if (ruts.length === 0) {
+        return new Map();
+    }
+
+    const patients = await db
+        .selectFrom("patient")
+        .select(({ ref }) => [
+            "rut",
+            sql<string>`concat(
+                ${ref("first_name")}, " ",
+                ifnull(concat(${ref("second_name")}, " "), ""),
+                ${ref("first_last_name")},
+                ifnull(concat(" ", ${ref("second_last_name")}), "")
+            )`.as("fullName"),
+            "email",
+            "phone",
+            "birth_date as birthDate",
+        ])
+        .where("rut", "in", ruts)
+        .execute();
+
+    return new Map(patients.map(patient => [patient.rut, patient]));
+}
+
+export type RelatedMedic = {
+    rut: string;
+    fullName: string;
+    email: string;
+    phone: number;
+    birthDate: string;
+    gender: string;
+    specialty: string;
+};
+
+export type RelatedPatient = {
+    rut: string;
+    fullName: string;
+    email: string;
+    phone: number;
+    birthDate: string;
+};
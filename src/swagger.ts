@@ -3,12 +3,504 @@ import { readFileSync } from "fs";
 import path from "path";
 import swaggerUi from "swagger-ui-express";
 import yaml from "yaml";
+import { isApiKeyPermission } from "./apiKeys";
+import {
+    CsvOptions,
+    defaultPageSize,
+    DeprecationOptions,
+    Endpoint,
+    EndpointRoute,
+    FieldsOptions,
+    getEndpointRoutes,
+    HTTPStatus,
+    JsonSchema,
+    ListOptions,
+    maxPageSize,
+    ParameterSchema,
+    RateLimitOptions,
+    ResponseSchema,
+    RouteSchema,
+    schemaRef,
+} from "./endpoints";
 import logger from "./logger";
+import { getDefaultPermissions, Permission } from "./permissions";
+import { TokenType } from "./tokens";
 
-export default function loadSwaggerV1Docs(router: Router, v1Path: string): void {
-    const swaggerSpecs = yaml.parse(readFileSync(path.join(__dirname, "../docs.yaml"), "utf-8"));
+const sessionTokenSchemes = {
+    [TokenType.PATIENT]: "PatientSessionToken",
+    [TokenType.MEDIC]: "MedicSessionToken",
+    [TokenType.ADMIN]: "AdminSessionToken",
+} as const satisfies Record<TokenType, string>;
 
+const listResponseHeaders = {
+    "X-Total-Count": {
+        description: "Total amount of results across every page.",
+        schema: { type: "integer" },
+    },
+    "Link": {
+        description: "Links to the first, previous, next and last pages, as available.",
+        schema: { type: "string" },
+    },
+};
+
+const rateLimitResponseHeaders = {
+    "RateLimit-Limit": {
+        description: "Requests allowed per window.",
+        schema: { type: "integer" },
+    },
+    "RateLimit-Remaining": {
+        description: "Requests left in the current window.",
+        schema: { type: "integer" },
+    },
+    "RateLimit-Reset": {
+        description: "Seconds until the current window ends.",
+        schema: { type: "integer" },
+    },
+    "RateLimit-Policy": {
+        description: "Requests allowed and duration of the window in seconds, e.g. `10;w=60`.",
+        schema: { type: "string" },
+    },
+};
+
+const unauthorizedResponse = { $ref: "#/components/responses/UnauthorizedError" };
+const forbiddenResponse = { $ref: "#/components/responses/ForbiddenError" };
+
+/**
+ * Builds the OpenAPI spec of the endpoints of an API version, and serves it along with its Swagger UI. Must be called
+ * after the permissions have been loaded.
+ */
+export default function loadSwaggerDocs(
+    router: Router,
+    version: string,
+    basePath: string,
+    endpoints: Endpoint[]
+): void {
+    const swaggerSpecs = buildOpenApiSpec(basePath, endpoints);
+
+    router.get("/openapi.json", (_request, response) => {
+        response.send(swaggerSpecs);
+    });
     router.use("/docs", swaggerUi.serve, swaggerUi.setup(swaggerSpecs));
 
-    logger.log(`API v1 documentation available at ${v1Path}/docs.`);
+    logger.log(
+        `API ${version} documentation available at ${basePath}/docs, and its OpenAPI spec at ${basePath}/openapi.json.`
+    );
+}
+
+/**
+ * Generates the paths of the spec from the schemas of the endpoints' routes. Everything else, like the shared schemas,
+ * comes from `docs.yaml`.
+ *
+ * @throws {Error} If any route doesn't have a schema, or its schema is invalid.
+ */
+function buildOpenApiSpec(basePath: string, endpoints: Endpoint[]): OpenApiSpec {
+    const baseSpec: OpenApiSpec = yaml.parse(readFileSync(path.join(__dirname, "../docs.yaml"), "utf-8"));
+    const schemaNames = new Set(Object.keys(baseSpec.components?.schemas ?? {}));
+    const paths: Record<string, Record<string, unknown>> = {};
+    const errors: string[] = [];
+
+    for (const endpoint of endpoints) {
+        for (const route of getEndpointRoutes(endpoint)) {
+            const { method, path: routePath, schema } = route;
+
+            if (!schema) {
+                errors.push(`${method} ${routePath} does not have a schema.`);
+                continue;
+            }
+
+            for (const error of validateRouteSchema(route, schema, schemaNames)) {
+                errors.push(`${method} ${routePath}: ${error}`);
+            }
+
+            const specPath = routePath.replace(/:(\w+)/g, "{$1}");
+
+            paths[specPath] = {
+                ...paths[specPath],
+                [method.toLowerCase()]: buildOperation(route, schema),
+            };
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid OpenAPI route schemas:\n${errors.join("\n")}`);
+    }
+
+    return {
+        ...baseSpec,
+        servers: [{ url: basePath }],
+        paths,
+    };
+}
+
+function validateRouteSchema(
+    { path: routePath, fields }: EndpointRoute,
+    schema: RouteSchema,
+    schemaNames: Set<string>
+): string[] {
+    const errors: string[] = [];
+    const pathParams = [...routePath.matchAll(/:(\w+)/g)].map(([, name]) => name);
+    const documentedParams = Object.keys(schema.params ?? {});
+
+    for (const param of pathParams) {
+        if (!documentedParams.includes(param)) {
+            errors.push(`Path parameter ${param} is not documented.`);
+        }
+    }
+
+    for (const param of documentedParams) {
+        if (!pathParams.includes(param)) {
+            errors.push(`Documented path parameter ${param} is not in the path.`);
+        }
+    }
+
+    if (Object.keys(schema.responses).length === 0) {
+        errors.push("No responses are documented.");
+    }
+
+    for (const name of getSchemaRefs([schema, fields?.include])) {
+        if (!schemaNames.has(name)) {
+            errors.push(`Schema ${name} does not exist.`);
+        }
+    }
+
+    return errors;
+}
+
+function getSchemaRefs(value: unknown): string[] {
+    if (typeof value !== "object" || value === null) {
+        return [];
+    }
+
+    const refs: string[] = [];
+
+    for (const [key, nested] of Object.entries(value)) {
+        if (key === "$ref" && typeof nested === "string") {
+            refs.push(nested.replace("#/components/schemas/", ""));
+            continue;
+        }
+
+        refs.push(...getSchemaRefs(nested));
+    }
+
+    return refs;
+}
+
+function buildOperation(
+    { permissions, ownerType, list, fields, csv, idempotent, rateLimit, deprecated }: EndpointRoute,
+    schema: RouteSchema
+): Record<string, unknown> {
+    const { tags, summary, description, params = {}, query = {}, headers = {}, body, responses } = schema;
+
+    const parameters = [
+        ...Object.entries(params).map(([name, param]) => buildParameter(name, "path", { ...param, required: true })),
+        ...Object.entries(query).map(([name, param]) => buildParameter(name, "query", param)),
+        ...Object.entries(headers).map(([name, param]) => buildParameter(name, "header", param)),
+        ...list ? getListParameters(list) : [],
+        ...fields ? getFieldsParameters(fields) : [],
+        ...csv ? [buildParameter("format", "query", {
+            description: "Format of the response, CSV may also be requested through the `Accept` header.",
+            schema: { type: "string", enum: ["json", "csv"], default: "json" },
+        })] : [],
+        ...idempotent ? [buildParameter("Idempotency-Key", "header", {
+            description: "Unique key of the request. Retries with the same key get the original response, with the "
+                + "`Idempotent-Replayed` header, instead of repeating the request.",
+            schema: { type: "string", minLength: 1, maxLength: 255 },
+        })] : [],
+    ];
+
+    const security = getSecurityRequirements(permissions, ownerType);
+    const operationResponses: Record<string, unknown> = {
+        ...permissions.length > 0 && {
+            [HTTPStatus.UNAUTHORIZED]: unauthorizedResponse,
+            [HTTPStatus.FORBIDDEN]: forbiddenResponse,
+        },
+    };
+
+    for (const [status, response] of Object.entries(responses)) {
+        operationResponses[status] = buildResponse(+status, response);
+    }
+
+    if (list) {
+        const okResponse = operationResponses[HTTPStatus.OK] as Record<string, unknown>;
+
+        operationResponses[HTTPStatus.OK] = {
+            ...okResponse,
+            headers: {
+                ...okResponse.headers as Record<string, unknown>,
+                ...listResponseHeaders,
+            },
+        };
+    }
+
+    if (fields) {
+        addIncludedRelations(operationResponses, fields);
+    }
+
+    if (csv) {
+        addCsvResponse(operationResponses, csv);
+    }
+
+    const invalidQueryParams = [
+        ...list ? ["page", "limit", "sort", "filters"] : [],
+        ...fields ? ["fields", ...fields.include ? ["include"] : []] : [],
+        ...csv ? ["format"] : [],
+    ];
+
+    if (invalidQueryParams.length > 0) {
+        const last = invalidQueryParams.pop();
+
+        operationResponses[HTTPStatus.BAD_REQUEST] ??= buildResponse(HTTPStatus.BAD_REQUEST, invalidQueryParams.length > 0
+            ? `Invalid ${invalidQueryParams.join(", ")} or ${last}.`
+            : `Invalid ${last}.`);
+    }
+
+    if (idempotent) {
+        operationResponses[HTTPStatus.CONFLICT] ??= buildResponse(
+            HTTPStatus.CONFLICT, "A request with the same Idempotency-Key is still being processed."
+        );
+        operationResponses[HTTPStatus.UNPROCESSABLE_CONTENT] ??= buildResponse(
+            HTTPStatus.UNPROCESSABLE_CONTENT, "Idempotency-Key has already been used for a different request."
+        );
+    }
+
+    if (rateLimit) {
+        addRateLimitResponses(operationResponses, rateLimit);
+    }
+
+    const deprecationNotice = deprecated && getDeprecationNotice(deprecated);
+
+    return {
+        tags,
+        summary,
+        ...(description || deprecationNotice) && {
+            description: [description, deprecationNotice].filter(Boolean).join("\n\n"),
+        },
+        ...deprecated && { deprecated: true },
+        ...security.length > 0 && { security },
+        ...parameters.length > 0 && { parameters },
+        ...body && {
+            requestBody: {
+                ...body.description && { description: body.description },
+                content: {
+                    "application/json": {
+                        schema: body.schema,
+                    },
+                },
+            },
+        },
+        responses: operationResponses,
+    };
+}
+
+function getListParameters({ sort, defaultSort, filters = {} }: ListOptions): Array<Record<string, unknown>> {
+    const sortFields = Object.keys(sort).join(", ");
+
+    return [
+        buildParameter("page", "query", {
+            description: "Page to retrieve, starting from 1.",
+            schema: { type: "integer", minimum: 1, default: 1 },
+        }),
+        buildParameter("limit", "query", {
+            description: "Maximum amount of results per page.",
+            schema: { type: "integer", minimum: 1, maximum: maxPageSize, default: defaultPageSize },
+        }),
+        buildParameter("sort", "query", {
+            description: `Comma separated fields to sort by, prefixed with \`-\` for descending order: ${sortFields}.`,
+            schema: { type: "string", default: defaultSort.join(",") },
+        }),
+        ...Object.entries(filters).map(([name, { type }]) => buildParameter(name, "query", {
+            description: `Filter by ${name}. Multiple comma separated values match any of them.`,
+            schema: type === "date" ? { type: "string", format: "date" } : { type },
+        })),
+    ];
 }
+
+function getFieldsParameters({ select, include = {} }: FieldsOptions): Array<Record<string, unknown>> {
+    const relations = Object.keys(include);
+
+    return [
+        buildParameter("fields", "query", {
+            description: `Comma separated fields to send: ${select.join(", ")}. Every field is sent by default.`,
+            schema: { type: "string" },
+        }),
+        ...relations.length > 0 ? [buildParameter("include", "query", {
+            description: `Comma separated related resources to embed in each result: ${relations.join(", ")}.`,
+            schema: { type: "string" },
+        })] : [],
+    ];
+}
+
+/**
+ * Documents the relations that may be embedded in the successful response, whether it sends a single result or an array
+ * of them.
+ */
+function addIncludedRelations(responses: Record<string, unknown>, { include = {} }: FieldsOptions): void {
+    const okResponse = responses[HTTPStatus.OK] as { content?: Record<string, { schema: JsonSchema }> } | undefined;
+    const content = okResponse?.content?.["application/json"];
+
+    if (!content || Object.keys(include).length === 0) {
+        return;
+    }
+
+    const relations: JsonSchema = {
+        type: "object",
+        properties: Object.fromEntries(Object.entries(include).map(([name, { schema }]) => [name, {
+            description: "Only sent if included, `null` if it does not exist.",
+            nullable: true,
+            allOf: [schema],
+        }])),
+    };
+
+    const { schema } = content;
+
+    okResponse.content = {
+        ...okResponse.content,
+        "application/json": {
+            schema: schema.type === "array"
+                ? { ...schema, items: { allOf: [schema.items, relations] } }
+                : { allOf: [schema, relations] },
+        },
+    };
+}
+
+function addCsvResponse(responses: Record<string, unknown>, { filename, columns }: CsvOptions): void {
+    const okResponse = responses[HTTPStatus.OK] as Record<string, unknown>;
+
+    responses[HTTPStatus.OK] = {
+        ...okResponse,
+        content: {
+            ...okResponse.content as Record<string, unknown>,
+            "text/csv": {
+                schema: {
+                    type: "string",
+                    description: `Every result, ignoring page and limit, downloaded as ${filename}.csv. Columns: `
+                        + `${Object.keys(columns).join(", ")}.`,
+                },
+            },
+        },
+    };
+}
+
+/**
+ * Every response sent after the permissions are checked includes the rate limit headers, but they're only documented in
+ * the successful ones.
+ */
+function addRateLimitResponses(responses: Record<string, unknown>, { window, max, keyBy }: RateLimitOptions): void {
+    for (const [status, response] of Object.entries(responses)) {
+        if (+status < 200 || +status >= 300) continue;
+
+        const successResponse = response as Record<string, unknown>;
+
+        responses[status] = {
+            ...successResponse,
+            headers: {
+                ...successResponse.headers as Record<string, unknown>,
+                ...rateLimitResponseHeaders,
+            },
+        };
+    }
+
+    const client = keyBy === "rut" ? "user" : "IP address";
+
+    responses[HTTPStatus.TOO_MANY_REQUESTS] ??= buildResponse(HTTPStatus.TOO_MANY_REQUESTS, {
+        description: `Too many requests, at most ${max} are allowed every ${window} seconds per ${client}.`,
+        schema: schemaRef("Error"),
+        headers: {
+            "Retry-After": {
+                description: "Seconds until a new request can be made.",
+                schema: { type: "integer" },
+            },
+            ...rateLimitResponseHeaders,
+        },
+    });
+}
+
+function getDeprecationNotice({ since, sunset, link }: DeprecationOptions): string {
+    const notice = [`Deprecated since ${since}.`];
+
+    if (sunset) {
+        notice.push(`It will stop being available on ${sunset}.`);
+    }
+
+    if (link) {
+        notice.push(`See ${link}.`);
+    }
+
+    return notice.join(" ");
+}
+
+function buildParameter(
+    name: string,
+    location: "path" | "query" | "header",
+    param: ParameterSchema
+): Record<string, unknown> {
+    return {
+        name,
+        in: location,
+        ...param.description && { description: param.description },
+        ...param.required && { required: true },
+        schema: param.schema,
+    };
+}
+
+function buildResponse(status: HTTPStatus, response: string | ResponseSchema): Record<string, unknown> {
+    if (typeof response === "string") {
+        response = {
+            description: response,
+            ...status >= 400 && { schema: schemaRef("Error") },
+        };
+    }
+
+    const { description, schema, headers } = response;
+
+    return {
+        description,
+        ...headers && {
+            headers: Object.fromEntries(Object.entries(headers).map(([name, header]) => [name, {
+                ...header.description && { description: header.description },
+                schema: header.schema,
+            }])),
+        },
+        ...schema && {
+            content: {
+                "application/json": {
+                    schema,
+                },
+            },
+        },
+    };
+}
+
+/**
+ * A route can be used with the session token of any account type whose default roles grant one of its permissions, or
+ * with an API key if one of them can be granted to keys. `own` scoped permissions only count for the owners' type.
+ */
+function getSecurityRequirements(permissions: Permission[], ownerType?: TokenType): Array<Record<string, []>> {
+    if (permissions.length === 0) {
+        return [];
+    }
+
+    const security: Array<Record<string, []>> = [];
+
+    for (const type of [TokenType.PATIENT, TokenType.MEDIC, TokenType.ADMIN]) {
+        const granted = getDefaultPermissions(type);
+        const canOwn = typeof ownerType === "undefined" || ownerType === type;
+
+        if (permissions.some(permission => granted.has(permission) && (canOwn || permission.endsWith(":any")))) {
+            security.push({ [sessionTokenSchemes[type]]: [] });
+        }
+    }
+
+    if (permissions.some(isApiKeyPermission)) {
+        security.push({ ApiKey: [] });
+    }
+
+    return security;
+}
+
+type OpenApiSpec = {
+    components?: {
+        schemas?: Record<string, JsonSchema>;
+    };
+    [key: string]: unknown;
+};
@@ -1,6 +1,7 @@
 import { randomBytes } from "crypto";
-import { sql } from "kysely";
-import { db } from "./db";
+import { RawBuilder, sql } from "kysely";
+import { BigIntString, db, Session } from "./db";
+import logger from "./logger";
 
 // noinspection JSUnusedGlobalSymbols
 export enum TokenType {
@@ -10,80 +11,600 @@ export enum TokenType {
 }
 
 export type Token = {
+    id: BigIntString;
     token: string;
     rut: string;
     type: TokenType;
+    /**
+     * Only present in tokens issued to an admin impersonating the user.
+     */
+    impersonationId?: BigIntString;
+    /**
+     * Rut of the admin impersonating the user, only present along with {@link Token.impersonationId}.
+     */
+    impersonatorRut?: string;
+    /**
+     * Only present in tokens representing an API key, in which case the rut is the one of the admin who created it.
+     */
+    apiKeyId?: BigIntString;
 };
 
-const tokens = new Map<string, Token>();
+export type SessionMetadata = {
+    userAgent?: string;
+    ip?: string;
+};
 
-export async function loadTokens(): Promise<void> {
-    const patientTokens = await db
-        .selectFrom("patient")
-        .select([
-            "rut",
-            "session_token as token",
-        ])
+export type SessionInfo = {
+    id: BigIntString;
+    createdAt: string;
+    lastUsedAt: string;
+    userAgent?: string;
+    ip?: string;
+};
+
+export type TokenImpersonation = {
+    id: BigIntString;
+    adminRut: string;
+};
+
+type CachedToken = Token & {
+    createdAt: number;
+    lastUsedAt: number;
+    lastUsedWrittenAt: number;
+    /**
+     * When the entry was loaded from the database, in milliseconds since epoch.
+     */
+    cachedAt: number;
+};
+
+type SessionLimits = {
+    /**
+     * Maximum amount of milliseconds a session can exist for, regardless of its usage.
+     */
+    lifetime: number;
+    /**
+     * Maximum amount of milliseconds a session can go unused for.
+     */
+    idleTimeout: number;
+};
+
+export const tokenTypeNames = {
+    [TokenType.PATIENT]: "patient",
+    [TokenType.MEDIC]: "medic",
+    [TokenType.ADMIN]: "admin",
+} as const satisfies Record<TokenType, Session["type"]>;
+
+export const tokenTypes = {
+    patient: TokenType.PATIENT,
+    medic: TokenType.MEDIC,
+    admin: TokenType.ADMIN,
+} as const satisfies Record<Session["type"], TokenType>;
+
+/**
+ * Minimum amount of milliseconds between two writes of `session.last_used_at` for the same token.
+ */
+const lastUsedWriteInterval = 60_000;
+
+/**
+ * Amount of milliseconds between each purge of expired sessions and old revocations.
+ */
+const expiredSessionsPurgeInterval = 3_600_000;
+
+/**
+ * Maximum amount of tokens kept in memory, the least recently used ones get evicted first.
+ */
+const maxCachedTokens = 10_000;
+
+/**
+ * Maximum amount of milliseconds a token is kept in memory before being loaded from the database again. Also bounds
+ * how long a revocation missed by the polling could go unnoticed.
+ */
+const cachedTokenTtl = 60_000;
+
+/**
+ * Amount of milliseconds between each check for sessions revoked by other instances.
+ */
+const revocationPollInterval = 5_000;
+
+/**
+ * In minutes. Can be overridden through the `SESSION_LIFETIME_<TYPE>` and `SESSION_IDLE_TIMEOUT_<TYPE>` env variables.
+ */
+const defaultSessionLimits = {
+    [TokenType.PATIENT]: {
+        lifetime: 30 * 24 * 60,
+        idleTimeout: 7 * 24 * 60,
+    },
+    [TokenType.MEDIC]: {
+        lifetime: 12 * 60,
+        idleTimeout: 30,
+    },
+    [TokenType.ADMIN]: {
+        lifetime: 12 * 60,
+        idleTimeout: 30,
+    },
+} as const satisfies Record<TokenType, Record<keyof SessionLimits, number>>;
+
+/**
+ * In minutes. Can be overridden through the `SESSION_LIFETIME_IMPERSONATION` env variable. Impersonation sessions
+ * still can't outlive the regular limits of the impersonated user's type.
+ */
+const defaultImpersonationLifetime = 15;
+
+/**
+ * Least recently used tokens first.
+ */
+const tokens = new Map<string, CachedToken>();
+// deferred initialization, must wait for env variables to be ready
+const sessionLimits = {} as Record<TokenType, SessionLimits>;
+let impersonationLifetime = defaultImpersonationLifetime * 60_000;
+/**
+ * Version of the last revocation seen by this instance.
+ */
+let lastRevocationVersion: BigIntString = "0";
+
+/**
+ * Starts keeping track of revoked sessions and purging expired ones. Tokens themselves are loaded on demand.
+ */
+export async function initTokens(): Promise<void> {
+    loadSessionLimits();
+
+    const { version } = await db
+        .selectFrom("session_revocation")
+        .select(sql<BigIntString>`coalesce(max(version), 0)`.as("version"))
+        .executeTakeFirstOrThrow();
+
+    lastRevocationVersion = version;
+
+    await purgeExpiredTokens();
+
+    setInterval(purgeExpiredTokens, expiredSessionsPurgeInterval).unref();
+    setInterval(pollRevocations, revocationPollInterval).unref();
+}
+
+/**
+ * Creates a new session for the specified user. If an impersonation is given, the session belongs to it and is
+ * subject to its shorter lifetime.
+ */
+export async function generateToken(
+    rut: string,
+    type: TokenType,
+    metadata: SessionMetadata = {},
+    impersonation?: TokenImpersonation
+): Promise<string> {
+    const token = randomBytes(64).toString("base64url");
+
+    const { insertId } = await db
+        .insertInto("session")
+        .values({
+            token,
+            rut,
+            type: tokenTypeNames[type],
+            user_agent: metadata.userAgent?.slice(0, 256) || null,
+            ip: metadata.ip || null,
+            impersonation_id: impersonation?.id ?? null,
+        })
+        .executeTakeFirstOrThrow();
+
+    const now = Date.now();
+
+    cacheToken({
+        id: `${insertId}` as BigIntString,
+        token,
+        rut,
+        type,
+        ...impersonation && {
+            impersonationId: impersonation.id,
+            impersonatorRut: impersonation.adminRut,
+        },
+        createdAt: now,
+        lastUsedAt: now,
+        lastUsedWrittenAt: now,
+        cachedAt: now,
+    });
+
+    return token;
+}
+
+/**
+ * Replaces the token of the session with a new one, resetting its lifetime and idle timeout. Impersonation sessions
+ * keep their original lifetime.
+ *
+ * @returns The new token, or `null` if the old one was invalid or expired.
+ */
+export async function rotateToken(oldToken: string): Promise<string | null> {
+    const tokenData = await getTokenData(oldToken) as CachedToken | undefined;
+
+    if (!tokenData) {
+        return null;
+    }
+
+    const keepsLifetime = !!tokenData.impersonationId;
+    const token = randomBytes(64).toString("base64url");
+
+    await db
+        .updateTable("session")
+        .where("id", "=", tokenData.id)
+        .set({
+            token,
+            ...!keepsLifetime && { created_at: sql<string>`current_timestamp()` },
+            last_used_at: sql<string>`current_timestamp()`,
+        })
         .execute();
 
-    for (const { rut, token } of patientTokens) {
-        if (token) {
-            tokens.set(token, { token, rut, type: TokenType.PATIENT });
-        }
+    // other instances must stop accepting the old token
+    await publishRevocations([tokenData.id]);
+
+    const now = Date.now();
+
+    cacheToken({
+        ...tokenData,
+        token,
+        createdAt: keepsLifetime ? tokenData.createdAt : now,
+        lastUsedAt: now,
+        lastUsedWrittenAt: now,
+        cachedAt: now,
+    });
+
+    return token;
+}
+
+/**
+ * Returns the data associated to a token, or `undefined` if it does not exist or has already expired. Tokens not
+ * cached by this instance are loaded from the database.
+ */
+export async function getTokenData(token: string): Promise<Token | undefined> {
+    const cachedToken = getCachedToken(token);
+    // another instance may have used the token after it got cached here, so its idle timeout may not be accurate
+    const tokenData = cachedToken && !isExpired(cachedToken) ? cachedToken : await loadToken(token);
+
+    if (!tokenData || isExpired(tokenData)) {
+        return undefined;
     }
 
-    const employeeTokens = await db
-        .selectFrom("employee")
+    const now = Date.now();
+    tokenData.lastUsedAt = now;
+
+    if (now - tokenData.lastUsedWrittenAt >= lastUsedWriteInterval) {
+        tokenData.lastUsedWrittenAt = now;
+
+        void db
+            .updateTable("session")
+            .where("id", "=", tokenData.id)
+            .set("last_used_at", sql<string>`current_timestamp()`)
+            .execute()
+            .catch(error => logger.error("Failed to update session last use:", error));
+    }
+
+    return tokenData;
+}
+
+export async function isTokenExpired(token: string): Promise<boolean> {
+    const tokenData = getCachedToken(token) ?? await loadToken(token);
+    return !!tokenData && isExpired(tokenData);
+}
+
+export async function getSessions(rut: string, type: TokenType): Promise<SessionInfo[]> {
+    const sessions = await db
+        .selectFrom("session")
         .select([
-            "rut",
-            "session_token as token",
-            sql<string>`(
-                case
-                    when type = "medic" then ${TokenType.MEDIC}
-                    else ${TokenType.ADMIN}
-                end
-            )`.as("type"),
+            "id",
+            "created_at as createdAt",
+            "last_used_at as lastUsedAt",
+            "user_agent as userAgent",
+            "ip",
         ])
+        .where("rut", "=", rut)
+        .where("type", "=", tokenTypeNames[type])
+        .where(getExpirationTimestamp(type), ">", sql<string>`unix_timestamp()`)
+        .orderBy("last_used_at", "desc")
         .execute();
 
-    for (const { rut, token, type } of employeeTokens) {
-        if (token) {
-            tokens.set(token, { token, rut, type: +type });
+    return sessions.map(session => ({
+        id: session.id,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        ...session.userAgent && { userAgent: session.userAgent },
+        ...session.ip && { ip: session.ip },
+    }));
+}
+
+export async function revokeToken(token: string): Promise<void> {
+    const tokenData = getCachedToken(token) ?? await loadToken(token);
+
+    if (tokenData) {
+        await db
+            .deleteFrom("session")
+            .where("id", "=", tokenData.id)
+            .execute();
+
+        await publishRevocations([tokenData.id]);
+
+        if (tokenData.impersonationId) {
+            await endImpersonations([tokenData.impersonationId]);
         }
     }
 }
 
-export async function generateToken(rut: string, type: TokenType): Promise<string> {
-    let token: string;
-    do {
-        token = randomBytes(64).toString("base64url");
-    } while (tokens.has(token));
+/**
+ * Revokes the session with the given id, only if it belongs to the specified user.
+ *
+ * @returns Whether a session was revoked.
+ */
+export async function revokeSession(id: BigIntString, rut: string, type: TokenType): Promise<boolean> {
+    const session = await db
+        .selectFrom("session")
+        .select("impersonation_id as impersonationId")
+        .where("id", "=", id)
+        .where("rut", "=", rut)
+        .where("type", "=", tokenTypeNames[type])
+        .executeTakeFirst();
+
+    if (!session) {
+        return false;
+    }
 
     await db
-        .updateTable(type === TokenType.PATIENT ? "patient" : "employee")
+        .deleteFrom("session")
+        .where("id", "=", id)
+        .execute();
+
+    await publishRevocations([id]);
+
+    if (session.impersonationId) {
+        await endImpersonations([session.impersonationId]);
+    }
+
+    return true;
+}
+
+/**
+ * Revokes all the sessions of the specified user, except for the one with the given token, if any.
+ */
+export async function revokeOtherTokens(rut: string, type: TokenType, exceptToken?: string): Promise<void> {
+    const exceptId = exceptToken ? (getCachedToken(exceptToken) ?? await loadToken(exceptToken))?.id : undefined;
+
+    let query = db
+        .selectFrom("session")
+        .select(["id", "impersonation_id as impersonationId"])
         .where("rut", "=", rut)
-        .set("session_token", token)
+        .where("type", "=", tokenTypeNames[type]);
+
+    if (exceptId) {
+        query = query.where("id", "!=", exceptId);
+    }
+
+    const sessions = await query.execute();
+
+    if (sessions.length === 0) {
+        return;
+    }
+
+    const ids = sessions.map(session => session.id);
+
+    await db
+        .deleteFrom("session")
+        .where("id", "in", ids)
         .execute();
 
-    tokens.set(token, { token, rut, type });
+    await publishRevocations(ids);
+    await endImpersonations(sessions.flatMap(session => session.impersonationId ?? []));
+}
 
-    return token;
+async function loadToken(token: string): Promise<CachedToken | undefined> {
+    const session = await db
+        .selectFrom("session as s")
+        .leftJoin("impersonation as i", "i.id", "s.impersonation_id")
+        .select([
+            "s.id",
+            "s.rut",
+            "s.type",
+            "s.impersonation_id as impersonationId",
+            "i.admin_rut as impersonatorRut",
+            sql<string>`unix_timestamp(s.created_at)`.as("createdAt"),
+            sql<string>`unix_timestamp(s.last_used_at)`.as("lastUsedAt"),
+        ])
+        .where("s.token", "=", token)
+        .executeTakeFirst();
+
+    if (!session) {
+        tokens.delete(token);
+        return undefined;
+    }
+
+    const { id, rut, type, impersonationId, impersonatorRut, createdAt, lastUsedAt } = session;
+    // uses made through this instance may not have been written yet
+    const previousLastUsedAt = tokens.get(token)?.lastUsedAt ?? 0;
+
+    const tokenData: CachedToken = {
+        id,
+        token,
+        rut,
+        type: tokenTypes[type],
+        ...impersonationId && impersonatorRut && { impersonationId, impersonatorRut },
+        createdAt: +createdAt * 1000,
+        lastUsedAt: Math.max(+lastUsedAt * 1000, previousLastUsedAt),
+        lastUsedWrittenAt: +lastUsedAt * 1000,
+        cachedAt: Date.now(),
+    };
+
+    cacheToken(tokenData);
+
+    return tokenData;
+}
+
+/**
+ * Returns the cached token, or `undefined` if it's not cached or its entry is too old.
+ */
+function getCachedToken(token: string): CachedToken | undefined {
+    const tokenData = tokens.get(token);
+
+    if (!tokenData || Date.now() - tokenData.cachedAt >= cachedTokenTtl) {
+        return undefined;
+    }
+
+    // move it to the end, as the most recently used
+    tokens.delete(token);
+    tokens.set(token, tokenData);
+
+    return tokenData;
 }
 
-export function getTokenData(token: string): Token | undefined {
-    return tokens.get(token);
+function cacheToken(tokenData: CachedToken): void {
+    tokens.delete(tokenData.token);
+    tokens.set(tokenData.token, tokenData);
+
+    if (tokens.size > maxCachedTokens) {
+        const leastRecentlyUsed = tokens.keys().next().value!;
+        tokens.delete(leastRecentlyUsed);
+    }
 }
 
-export async function revokeToken(token: string): Promise<void> {
-    const { type } = tokens.get(token) ?? { type: null };
+function evictSessions(ids: BigIntString[]): void {
+    const idSet = new Set(ids);
+
+    for (const tokenData of tokens.values()) {
+        if (idSet.has(tokenData.id)) {
+            tokens.delete(tokenData.token);
+        }
+    }
+}
+
+/**
+ * Evicts the sessions from this instance's cache, and records their revocation so other instances evict them too.
+ */
+async function publishRevocations(ids: BigIntString[]): Promise<void> {
+    evictSessions(ids);
+
+    await db
+        .insertInto("session_revocation")
+        .values(ids.map(id => ({
+            session_id: id,
+        })))
+        .execute();
+}
+
+async function pollRevocations(): Promise<void> {
+    try {
+        const revocations = await db
+            .selectFrom("session_revocation")
+            .select(["version", "session_id as sessionId"])
+            .where("version", ">", lastRevocationVersion)
+            .orderBy("version")
+            .execute();
 
-    if (type !== null) {
+        if (revocations.length === 0) {
+            return;
+        }
+
+        lastRevocationVersion = revocations[revocations.length - 1].version;
+        evictSessions(revocations.map(revocation => revocation.sessionId));
+    } catch (error) {
+        logger.error("Failed to poll session revocations:", error);
+    }
+}
+
+async function purgeExpiredTokens(): Promise<void> {
+    const types = Object.values(TokenType).filter((type): type is TokenType => typeof type === "number");
+
+    try {
+        await Promise.all(types.map(purgeExpiredSessions));
+
+        const retention = expiredSessionsPurgeInterval / 1000;
+
+        // every instance has long caught up with these
         await db
-            .updateTable(type === TokenType.PATIENT ? "patient" : "employee")
-            .where("session_token", "=", token)
-            .set("session_token", null)
+            .deleteFrom("session_revocation")
+            .where("created_at", "<", sql<string>`current_timestamp() - interval ${retention} second`)
             .execute();
+    } catch (error) {
+        logger.error("Failed to purge expired sessions:", error);
+    }
+}
 
-        tokens.delete(token);
+async function purgeExpiredSessions(type: TokenType): Promise<void> {
+    const expiration = getExpirationTimestamp(type);
+
+    const expiredSessions = await db
+        .selectFrom("session")
+        .select(["id", "impersonation_id as impersonationId", expiration.as("expiresAt")])
+        .where("type", "=", tokenTypeNames[type])
+        .where(expiration, "<=", sql<string>`unix_timestamp()`)
+        .execute();
+
+    if (expiredSessions.length === 0) {
+        return;
+    }
+
+    await db
+        .deleteFrom("session")
+        .where("id", "in", expiredSessions.map(session => session.id))
+        .execute();
+
+    // impersonations end when their session expired, not when it got purged
+    await Promise.all(expiredSessions.filter(session => session.impersonationId).map(session => db
+        .updateTable("impersonation")
+        .set("ended_at", sql<string>`from_unixtime(${session.expiresAt})`)
+        .where("id", "=", session.impersonationId!)
+        .where("ended_at", "is", null)
+        .execute()
+    ));
+}
+
+async function endImpersonations(ids: BigIntString[]): Promise<void> {
+    if (ids.length === 0) {
+        return;
     }
+
+    await db
+        .updateTable("impersonation")
+        .set("ended_at", sql<string>`current_timestamp()`)
+        .where("id", "in", ids)
+        .where("ended_at", "is", null)
+        .execute();
+}
+
+/**
+ * Same as {@link getExpiration}, but for sessions in the database, in seconds since epoch.
+ */
+function getExpirationTimestamp(type: TokenType): RawBuilder<string> {
+    const { lifetime, idleTimeout } = sessionLimits[type];
+    const impersonatedLifetime = Math.min(lifetime, impersonationLifetime);
+
+    return sql<string>`least(
+        unix_timestamp(created_at) + if(impersonation_id is null, ${lifetime / 1000}, ${impersonatedLifetime / 1000}),
+        unix_timestamp(last_used_at) + ${idleTimeout / 1000}
+    )`;
+}
+
+function isExpired(tokenData: CachedToken): boolean {
+    return Date.now() >= getExpiration(tokenData);
+}
+
+/**
+ * In milliseconds since epoch.
+ */
+function getExpiration(tokenData: CachedToken): number {
+    const { idleTimeout } = sessionLimits[tokenData.type];
+    const lifetime = tokenData.impersonationId
+        ? Math.min(sessionLimits[tokenData.type].lifetime, impersonationLifetime)
+        : sessionLimits[tokenData.type].lifetime;
+
+    return Math.min(tokenData.createdAt + lifetime, tokenData.lastUsedAt + idleTimeout);
+}
+
+function loadSessionLimits(): void {
+    for (const type of Object.values(TokenType)) {
+        if (typeof type !== "number") continue;
+
+        const name = TokenType[type];
+        const lifetime = +(process.env[`SESSION_LIFETIME_${name}`] ?? 0) || defaultSessionLimits[type].lifetime;
+        const idleTimeout = +(process.env[`SESSION_IDLE_TIMEOUT_${name}`] ?? 0) || defaultSessionLimits[type].idleTimeout;
+
+        sessionLimits[type] = {
+            lifetime: lifetime * 60_000,
+            idleTimeout: idleTimeout * 60_000,
+        };
+    }
+
+    impersonationLifetime = (+(process.env.SESSION_LIFETIME_IMPERSONATION ?? 0) || defaultImpersonationLifetime) * 60_000;
 }
@@ -0,0 +1,309 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { db } from "./db";
+
+/**
+ * In seconds.
+ */
+const timeStep = 30;
+const codeDigits = 6;
+/**
+ * Amount of time steps before and after the current one in which a code is still accepted, to allow for clock drift.
+ */
+const allowedDrift = 1;
+const secretLength = 20;
+const recoveryCodesAmount = 10;
+const issuer = "Clinic";
+const base32Alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * Generates a new secret for the specified employee, replacing any pending enrollment.
+ *
+ * @returns The secret and its `otpauth://` URI, or `null` if the employee already has two-factor authentication enabled.
+ */
+export async function startTotpEnrollment(rut: string): Promise<TotpEnrollment | null> {
+    const status = await getTotpStatus(rut);
+
+    if (status.enabled) {
+        return null;
+    }
+
+    const secret = encodeBase32(randomBytes(secretLength));
+
+    await db
+        .insertInto("employee_totp")
+        .values({
+            rut,
+            secret,
+        })
+        .onDuplicateKeyUpdate({
+            secret,
+            last_used_step: null,
+        })
+        .execute();
+
+    const label = encodeURIComponent(`${issuer}:${rut}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: "SHA1",
+        digits: `${codeDigits}`,
+        period: `${timeStep}`,
+    });
+
+    return {
+        secret,
+        uri: `otpauth://totp/${label}?${params}`,
+    };
+}
+
+/**
+ * Enables two-factor authentication for the specified employee if the code matches their pending secret, replacing
+ * any previous recovery codes.
+ *
+ * @returns The new recovery codes, or `null` if there's no pending enrollment or the code is invalid.
+ */
+export async function confirmTotpEnrollment(rut: string, code: string): Promise<string[] | null> {
+    const totp = await db
+        .selectFrom("employee_totp")
+        .select(["secret", "enabled"])
+        .where("rut", "=", rut)
+        .executeTakeFirst();
+
+    if (!totp?.secret || totp.enabled) {
+        return null;
+    }
+
+    const step = findTimeStep(totp.secret, code);
+
+    if (step === null) {
+        return null;
+    }
+
+    const recoveryCodes = Array.from({ length: recoveryCodesAmount }, generateRecoveryCode);
+
+    await db.transaction().execute(async (tsx) => {
+        await tsx
+            .updateTable("employee_totp")
+            .set({
+                enabled: true,
+                last_used_step: `${step}`,
+            })
+            .where("rut", "=", rut)
+            .execute();
+
+        await tsx
+            .deleteFrom("totp_recovery_code")
+            .where("rut", "=", rut)
+            .execute();
+
+        await tsx
+            .insertInto("totp_recovery_code")
+            .values(recoveryCodes.map(recoveryCode => ({
+                rut,
+                code_hash: hashRecoveryCode(recoveryCode),
+            })))
+            .execute();
+    });
+
+    return recoveryCodes;
+}
+
+export async function getTotpStatus(rut: string): Promise<TotpStatus> {
+    const totp = await db
+        .selectFrom("employee_totp")
+        .select(["enabled", "required"])
+        .where("rut", "=", rut)
+        .executeTakeFirst();
+
+    return {
+        enabled: totp?.enabled ?? false,
+        required: totp?.required ?? false,
+    };
+}
+
+/**
+ * Checks either a TOTP code or a recovery code for the specified employee. Accepted codes can't be used again.
+ *
+ * @returns Whether the code was valid.
+ */
+export async function verifySecondFactor(rut: string, code: string): Promise<boolean> {
+    const normalizedCode = code.replace(/[\s-]/g, "").toUpperCase();
+
+    if (normalizedCode.length === codeDigits) {
+        const totp = await db
+            .selectFrom("employee_totp")
+            .select("secret")
+            .where("rut", "=", rut)
+            .where("enabled", "=", true)
+            .executeTakeFirst();
+
+        const step = totp?.secret ? findTimeStep(totp.secret, normalizedCode) : null;
+
+        if (step === null) {
+            return false;
+        }
+
+        const result = await db
+            .updateTable("employee_totp")
+            .set("last_used_step", `${step}`)
+            .where("rut", "=", rut)
+            .where(({ eb, or }) => or([
+                eb("last_used_step", "is", null),
+                eb("last_used_step", "<", `${step}`),
+            ]))
+            .executeTakeFirst();
+
+        return result.numUpdatedRows > 0n;
+    }
+
+    const result = await db
+        .updateTable("totp_recovery_code")
+        .set("used", true)
+        .where("rut", "=", rut)
+        .where("code_hash", "=", hashRecoveryCode(normalizedCode))
+        .where("used", "=", false)
+        .executeTakeFirst();
+
+    return result.numUpdatedRows > 0n;
+}
+
+/**
+ * Disables two-factor authentication for the specified employee, removing their secret and recovery codes. Whether
+ * it's required for them is left untouched.
+ *
+ * @returns Whether the employee had two-factor authentication enabled or pending.
+ */
+export async function disableTotp(rut: string): Promise<boolean> {
+    return await db.transaction().execute(async (tsx) => {
+        const result = await tsx
+            .updateTable("employee_totp")
+            .set({
+                secret: null,
+                enabled: false,
+                last_used_step: null,
+            })
+            .where("rut", "=", rut)
+            .where("secret", "is not", null)
+            .executeTakeFirst();
+
+        await tsx
+            .deleteFrom("totp_recovery_code")
+            .where("rut", "=", rut)
+            .execute();
+
+        return result.numUpdatedRows > 0n;
+    });
+}
+
+export async function setTotpRequired(rut: string, required: boolean): Promise<void> {
+    await db
+        .insertInto("employee_totp")
+        .values({
+            rut,
+            required,
+        })
+        .onDuplicateKeyUpdate({
+            required,
+        })
+        .execute();
+}
+
+export type TotpEnrollment = {
+    secret: string;
+    uri: string;
+};
+
+export type TotpStatus = {
+    enabled: boolean;
+    required: boolean;
+};
+
+/**
+ * @returns The time step the code belongs to, or `null` if it doesn't match any of the allowed ones.
+ */
+function findTimeStep(secret: string, code: string): number | null {
+    if (!new RegExp(`^\\d{${codeDigits}}$`).test(code)) {
+        return null;
+    }
+
+    const key = decodeBase32(secret);
+    const currentStep = Math.floor(Date.now() / 1000 / timeStep);
+    const actual = Buffer.from(code);
+
+    for (let step = currentStep - allowedDrift; step <= currentStep + allowedDrift; step++) {
+        const expected = Buffer.from(generateCode(key, step));
+
+        if (timingSafeEqual(expected, actual)) {
+            return step;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * As specified in RFC 4226, using HMAC-SHA1.
+ */
+function generateCode(key: Buffer, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = createHmac("sha1", key).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return (binary % 10 ** codeDigits).toString().padStart(codeDigits, "0");
+}
+
+/**
+ * Formatted as `XXXXX-XXXXX`.
+ */
+function generateRecoveryCode(): string {
+    const code = encodeBase32(randomBytes(7)).slice(0, 10);
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+function hashRecoveryCode(code: string): string {
+    const normalizedCode = code.replace("-", "").toUpperCase();
+    return createHash("sha256").update(normalizedCode).digest("base64url");
+}
+
+function encodeBase32(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let encoded = "";
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+
+        while (bits >= 5) {
+            encoded += base32Alphabet[(value >>> (bits - 5)) & 0x1f];
+            bits -= 5;
+        }
+    }
+
+    if (bits > 0) {
+        encoded += base32Alphabet[(value << (5 - bits)) & 0x1f];
+    }
+
+    return encoded;
+}
+
+function decodeBase32(encoded: string): Buffer {
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of encoded) {
+        value = (value << 5) | base32Alphabet.indexOf(char);
+        bits += 5;
+
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 0xff);
+            bits -= 8;
+        }
+    }
+
+    return Buffer.from(bytes);
+}